@@ -0,0 +1,78 @@
+import { EventType } from './types';
+
+// Activity closer together than this is not sampled again, since mouse moves arrive in floods
+export const MIN_SAMPLE_MS = 1000;
+
+// Events that report the active time accumulated for a note
+export const ACTIVE_TIME_EVENT_TYPES: EventType[] = ['close', 'save', 'edit-burst'];
+
+/**
+ * Accumulates active editing time per note from keyboard, mouse and scroll
+ * activity. The time between two consecutive activity samples in the same note
+ * counts as active unless it exceeds the idle threshold, in which case the user
+ * is treated as having been away. Accumulated time is taken by the close,
+ * save and edit-burst events of the note, so every active second is reported once.
+ */
+export class ActiveTimeTracker {
+  private idleMs: number;
+  private lastSample: { path: string; time: number } | null = null;
+  private accumulated = new Map<string, number>(); // Active milliseconds by path, since last taken
+
+  constructor(idleThresholdSeconds: number) {
+    this.idleMs = idleThresholdSeconds * 1000;
+  }
+
+  setIdleThreshold(idleThresholdSeconds: number): void {
+    this.idleMs = idleThresholdSeconds * 1000;
+  }
+
+  /**
+   * Records user activity in a note
+   * @param path The note the activity happened in
+   * @param now Time of the activity
+   */
+  recordActivity(path: string, now: number = Date.now()): void {
+    if (this.idleMs <= 0) return;
+
+    const last = this.lastSample;
+    if (last && last.path === path) {
+      const gap = now - last.time;
+      if (gap < MIN_SAMPLE_MS) return;
+      if (gap <= this.idleMs) {
+        this.accumulated.set(path, (this.accumulated.get(path) || 0) + gap);
+      }
+    }
+    this.lastSample = { path, time: now };
+  }
+
+  /**
+   * Returns and resets the active time accumulated for a note
+   * @param path The note path
+   * @returns Active seconds, or undefined when tracking is disabled
+   */
+  take(path: string): number | undefined {
+    if (this.idleMs <= 0) return undefined;
+
+    const ms = this.accumulated.get(path) || 0;
+    this.accumulated.delete(path);
+    return Math.round(ms / 1000);
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const ms = this.accumulated.get(oldPath);
+    if (ms !== undefined) {
+      this.accumulated.delete(oldPath);
+      this.accumulated.set(newPath, ms);
+    }
+    if (this.lastSample?.path === oldPath) {
+      this.lastSample.path = newPath;
+    }
+  }
+
+  forget(path: string): void {
+    this.accumulated.delete(path);
+    if (this.lastSample?.path === path) {
+      this.lastSample = null;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { ContentDelta } from './types';
+
+// Upper bound on cached notes so the cache stays lightweight in large vaults
+const MAX_CACHED_FILES = 200;
+
+const encoder = new TextEncoder();
+
+/**
+ * Counts the words in a note's content
+ * @param content The note content
+ * @returns Number of whitespace separated words
+ */
+export function countWords(content: string): number {
+  const words = content.match(/\S+/g);
+  return words ? words.length : 0;
+}
+
+function byteLength(text: string): number {
+  return encoder.encode(text).length;
+}
+
+/**
+ * Counts lines that differ between two versions, treating the lines as multisets so
+ * moved lines are not counted. A modified line counts once.
+ */
+function countChangedLines(before: string, after: string): number {
+  const remaining = new Map<string, number>();
+  for (const line of before.split('\n')) {
+    remaining.set(line, (remaining.get(line) || 0) + 1);
+  }
+
+  let added = 0;
+  for (const line of after.split('\n')) {
+    const count = remaining.get(line) || 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      added++;
+    }
+  }
+
+  let removed = 0;
+  for (const count of remaining.values()) {
+    removed += count;
+  }
+
+  return Math.max(added, removed);
+}
+
+/**
+ * Computes the change between two versions of a note
+ * @param before The previous content
+ * @param after The new content
+ * @returns Bytes added and removed, word counts and lines changed
+ */
+export function computeContentDelta(before: string, after: string): ContentDelta {
+  // Trim the common prefix and suffix; what is left is the edited region
+  let prefix = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  return {
+    bytesAdded: byteLength(after.slice(prefix, after.length - suffix)),
+    bytesRemoved: byteLength(before.slice(prefix, before.length - suffix)),
+    wordsBefore: countWords(before),
+    wordsAfter: countWords(after),
+    linesChanged: countChangedLines(before, after)
+  };
+}
+
+/**
+ * Remembers the last known content of recently used notes so each save can be
+ * compared against the previous version
+ */
+export class ContentDeltaTracker {
+  private snapshots = new Map<string, string>();
+
+  /**
+   * Stores the current content of a note as its baseline
+   * @param path The note path
+   * @param content The note content
+   */
+  remember(path: string, content: string): void {
+    // Re-insert so the Map's insertion order doubles as least-recently-used order
+    this.snapshots.delete(path);
+    this.snapshots.set(path, content);
+
+    if (this.snapshots.size > MAX_CACHED_FILES) {
+      const oldest = this.snapshots.keys().next().value;
+      if (oldest !== undefined) {
+        this.snapshots.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Compares new content against the last known version and makes it the new baseline
+   * @param path The note path
+   * @param content The new note content
+   * @returns The delta, or null when there is no previous version to compare against
+   */
+  update(path: string, content: string): ContentDelta | null {
+    const previous = this.snapshots.get(path);
+    this.remember(path, content);
+    return previous === undefined ? null : computeContentDelta(previous, content);
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const content = this.snapshots.get(oldPath);
+    if (content !== undefined) {
+      this.snapshots.delete(oldPath);
+      this.remember(newPath, content);
+    }
+  }
+
+  forget(path: string): void {
+    this.snapshots.delete(path);
+  }
+}
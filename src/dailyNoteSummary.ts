@@ -0,0 +1,200 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { EventLogger } from './logger';
+import { PluginWriteRegistry } from './pluginWrites';
+import { EventFrontmatter } from './types';
+
+export const SECTION_START_MARKER = '<!-- obsidian-observer:worked-on:start -->';
+export const SECTION_END_MARKER = '<!-- obsidian-observer:worked-on:end -->';
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * What was worked on during one day
+ */
+export interface WorkSummary {
+  created: string[];
+  notes: { path: string; edits: number; seconds: number }[]; // Notes edited or viewed, busiest first
+  totalSeconds: number;
+}
+
+// The parts of the core Daily Notes plugin's settings that are used here
+interface DailyNotesOptions {
+  folder?: string;
+  format?: string;
+}
+
+interface InternalPlugins {
+  getPluginById(id: string): { enabled: boolean; instance?: { options?: DailyNotesOptions } } | null;
+}
+
+/**
+ * Collects the notes created, edited and viewed in a set of events
+ * @param events The events of one day
+ */
+export function buildWorkSummary(events: EventFrontmatter[]): WorkSummary {
+  const summary: WorkSummary = { created: [], notes: [], totalSeconds: 0 };
+
+  // Grouped by file ID so a note renamed during the day is listed once, under its latest path
+  const notes = new Map<string, { path: string; edits: number; seconds: number }>();
+  const sorted = [...events].sort((a, b) => a.OOEvent_Timestamp.localeCompare(b.OOEvent_Timestamp));
+
+  for (const record of sorted) {
+    if (record.OOEvent_Type === 'create') {
+      if (!record.OOEvent_Privacy) {
+        summary.created.push(record.OOEvent_FilePath);
+      }
+      continue;
+    }
+
+    const isEdit = record.OOEvent_Type === 'save' || record.OOEvent_Type === 'edit-burst';
+    const isClose = record.OOEvent_Type === 'close';
+    if (!isEdit && !isClose) continue;
+
+    // Active editing time where it was tracked, otherwise how long the note was open
+    let seconds = 0;
+    if (record.OOEvent_ActiveSeconds !== undefined) {
+      seconds = Number(record.OOEvent_ActiveSeconds) || 0;
+    } else if (isClose) {
+      seconds = Number(record.OOEvent_DwellSeconds) || 0;
+    }
+    summary.totalSeconds += seconds;
+
+    // Notes under a privacy rule count towards the time spent but are never listed
+    if (record.OOEvent_Privacy) continue;
+
+    const key = record.OOEvent_FileID || record.OOEvent_FilePath;
+    const note = notes.get(key) || { path: record.OOEvent_FilePath, edits: 0, seconds: 0 };
+    note.path = record.OOEvent_FilePath;
+    note.seconds += seconds;
+    if (isEdit) {
+      note.edits += record.OOEvent_Type === 'edit-burst' ? Number(record.OOEvent_ModifyCount) || 1 : 1;
+    }
+    notes.set(key, note);
+  }
+
+  summary.notes = Array.from(notes.values()).sort((a, b) => b.edits - a.edits || b.seconds - a.seconds);
+  return summary;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+/**
+ * Renders the "What I worked on" section, including its markers
+ */
+export function createWorkSection(summary: WorkSummary): string {
+  const link = (path: string) => `[[${path.replace(/\.md$/, '')}]]`;
+
+  let section = `${SECTION_START_MARKER}
+## What I worked on
+
+**Time spent:** ${formatDuration(summary.totalSeconds)} across ${summary.notes.length} notes
+
+### Notes Created
+
+`;
+  section += summary.created.length > 0 ? summary.created.map(path => `- ${link(path)}`).join('\n') : '_None_';
+
+  section += `\n\n### Notes Edited\n\n`;
+  const edited = summary.notes.filter(note => note.edits > 0);
+  if (edited.length > 0) {
+    section += `| Note | Edits | Time |\n|------|-------|------|\n`;
+    edited.forEach(note => {
+      section += `| ${link(note.path)} | ${note.edits} | ${formatDuration(note.seconds)} |\n`;
+    });
+  } else {
+    section += `_None_\n`;
+  }
+
+  section += `\n_Generated by ObsidianObserver. Edit outside the markers; this section is replaced when it is refreshed._
+${SECTION_END_MARKER}`;
+  return section;
+}
+
+/**
+ * Replaces the marked section of a note, or appends it when the note has none
+ * @param content The current note content
+ * @param section The new section, including its markers
+ */
+export function replaceWorkSection(content: string, section: string): string {
+  const start = content.indexOf(SECTION_START_MARKER);
+  const end = content.indexOf(SECTION_END_MARKER, start);
+  if (start !== -1 && end !== -1) {
+    return content.slice(0, start) + section + content.slice(end + SECTION_END_MARKER.length);
+  }
+
+  const separator = content.length === 0 || content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+  return `${content}${separator}${section}\n`;
+}
+
+/**
+ * Inserts or refreshes the "What I worked on" section in a day's daily note,
+ * using the folder and date format configured for the core Daily Notes plugin
+ */
+export class DailyNoteSummaryWriter {
+  private app: App;
+  private logger: EventLogger;
+  private pluginWrites: PluginWriteRegistry; // Keeps the section write from being logged as an edit of the daily note
+
+  constructor(app: App, logger: EventLogger, pluginWrites: PluginWriteRegistry) {
+    this.app = app;
+    this.logger = logger;
+    this.pluginWrites = pluginWrites;
+  }
+
+  /**
+   * Path of the daily note for a date, following the Daily Notes plugin settings
+   * @param date Any time on the day
+   */
+  getDailyNotePath(date: Date): string {
+    const options = this.getDailyNotesOptions();
+    const name = moment(date).format(options.format || DEFAULT_DATE_FORMAT);
+    const folder = (options.folder || '').trim().replace(/^\/+|\/+$/g, '');
+    return normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+  }
+
+  /**
+   * Writes the section for a day into its daily note
+   * @param date Any time on the day
+   * @returns Path of the updated daily note, or null if that day has no daily note or the event log is encrypted
+   */
+  async update(date: Date): Promise<string | null> {
+    // The section would copy encrypted events into the daily note as plain text
+    if (this.logger.isEncrypted()) {
+      console.log('[ObsidianObserver] Skipping the daily note activity summary, the event log is encrypted');
+      return null;
+    }
+
+    const path = this.getDailyNotePath(date);
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      console.log(`[ObsidianObserver] No daily note at ${path}, skipping activity summary`);
+      return null;
+    }
+
+    const from = new Date(date);
+    from.setHours(0, 0, 0, 0);
+    const nextDay = new Date(from);
+    nextDay.setDate(nextDay.getDate() + 1);
+
+    const events = await this.logger.readEventsWithBuffered({ from, to: new Date(nextDay.getTime() - 1) });
+    const section = createWorkSection(buildWorkSummary(events));
+
+    const content = await this.app.vault.read(file);
+    const updated = replaceWorkSection(content, section);
+    if (updated !== content) {
+      this.pluginWrites.mark(path, updated);
+      await this.app.vault.modify(file, updated);
+    }
+    return path;
+  }
+
+  private getDailyNotesOptions(): DailyNotesOptions {
+    const internalPlugins = (this.app as unknown as { internalPlugins?: InternalPlugins }).internalPlugins;
+    const dailyNotes = internalPlugins?.getPluginById('daily-notes');
+    return dailyNotes?.enabled && dailyNotes.instance?.options ? dailyNotes.instance.options : {};
+  }
+}
@@ -0,0 +1,112 @@
+import { generateBase32Guid } from './utils';
+
+// Kept in the app-wide localStorage rather than plugin data, which syncs between devices
+const DEVICE_ID_STORAGE_KEY = 'obsidian-observer-device-id';
+
+/**
+ * Provides a stable identity for the device ObsidianObserver runs on: a persistent
+ * device ID, the system hostname, and an optional friendly name set in settings.
+ * Everything is computed once, so every event from a device reports the same host.
+ */
+export class DeviceIdentity {
+  private deviceId: string;
+  private systemHostname: string;
+  private getDeviceNames: () => Record<string, string>;
+
+  constructor(getDeviceNames: () => Record<string, string>) {
+    this.getDeviceNames = getDeviceNames;
+    this.deviceId = this.loadOrCreateDeviceId();
+    this.systemHostname = this.detectSystemHostname();
+    console.log(`[ObsidianObserver] Device identity: ${this.systemHostname} (${this.deviceId})`);
+  }
+
+  /**
+   * The persistent ID of this device
+   */
+  getDeviceId(): string {
+    return this.deviceId;
+  }
+
+  /**
+   * The hostname detected from the operating system, or a stable fallback
+   */
+  getSystemHostname(): string {
+    return this.systemHostname;
+  }
+
+  /**
+   * The name recorded on events: the friendly device name if one is set, otherwise the system hostname
+   */
+  getHostname(): string {
+    const friendlyName = this.getDeviceNames()[this.deviceId];
+    return friendlyName && friendlyName.trim() ? friendlyName.trim() : this.systemHostname;
+  }
+
+  private loadOrCreateDeviceId(): string {
+    try {
+      const stored = window.localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+      if (stored) {
+        return stored;
+      }
+
+      const deviceId = generateBase32Guid();
+      window.localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+      return deviceId;
+    } catch (error) {
+      console.warn('[ObsidianObserver] Could not persist device ID:', error);
+      return generateBase32Guid();
+    }
+  }
+
+  private detectSystemHostname(): string {
+    // Method 1: Try to use Node.js os module (most reliable - uses uv_os_gethostname)
+    if (typeof require !== 'undefined') {
+      try {
+        const os = require('os');
+        if (os && typeof os.hostname === 'function') {
+          const hostname = os.hostname();
+
+          // Check if we got a meaningful hostname (not localhost or empty)
+          if (hostname &&
+              hostname.trim() &&
+              hostname !== 'localhost' &&
+              hostname !== '127.0.0.1' &&
+              hostname !== '::1') {
+            return hostname;
+          }
+        }
+      } catch (osError) {
+        console.log('[ObsidianObserver] os module not available or error:', osError);
+      }
+    }
+
+    // Method 2: Try to get from environment variables (fallback)
+    if (typeof process !== 'undefined' && process.env) {
+      const candidates = [process.env.HOSTNAME, process.env.COMPUTERNAME, process.env.USERDOMAIN];
+      for (const candidate of candidates) {
+        if (candidate && candidate !== 'localhost') {
+          return candidate;
+        }
+      }
+    }
+
+    // Method 3: Platform plus the persistent device ID, so the fallback is stable too
+    let platform = 'device';
+    if (typeof navigator !== 'undefined' && navigator.platform) {
+      if (navigator.platform.includes('Mac')) {
+        platform = 'mac';
+      } else if (navigator.platform.includes('Win')) {
+        platform = 'win';
+      } else if (navigator.platform.includes('Linux')) {
+        platform = 'linux';
+      } else if (/iPhone|iPad|iPod/.test(navigator.platform)) {
+        platform = 'ios';
+      }
+    }
+    if (platform === 'device' && typeof navigator !== 'undefined' && /Android/.test(navigator.userAgent)) {
+      platform = 'android';
+    }
+
+    return `${platform}-${this.deviceId.substring(0, 6).toLowerCase()}`;
+  }
+}
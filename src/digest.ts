@@ -0,0 +1,310 @@
+import { App, TFile } from 'obsidian';
+import { EventLogger } from './logger';
+import { getEditingMinutes } from './heatmapView';
+import { EventFrontmatter, PluginSettings } from './types';
+import { formatLocalDate } from './utils';
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+const MOST_EDITED_LIMIT = 10;
+
+// Missed digests further back than this are not written on the next launch
+const CATCH_UP_PERIODS: Record<DigestPeriod, number> = { daily: 7, weekly: 4 };
+
+/**
+ * A static summary of one day or week of activity
+ */
+export interface ActivityDigest {
+  period: DigestPeriod;
+  name: string; // YYYY-MM-DD for daily digests, YYYY-Www for weekly digests
+  start: Date;
+  end: Date; // Exclusive
+  eventCount: number;
+  created: string[];
+  mostEdited: { path: string; edits: number }[];
+  renames: { oldPath: string; newPath: string }[];
+  deleted: string[];
+  activeMinutesByFolder: Record<string, number>;
+  devices: Record<string, number>; // Events per host
+}
+
+function increment(counts: Record<string, number>, key: string, amount = 1): void {
+  counts[key] = (counts[key] || 0) + amount;
+}
+
+/**
+ * The local midnight that starts the day or week (Monday) containing a date
+ */
+export function getPeriodStart(date: Date, period: DigestPeriod): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  if (period === 'weekly') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+}
+
+function addPeriods(start: Date, period: DigestPeriod, count: number): Date {
+  const date = new Date(start);
+  date.setDate(date.getDate() + count * (period === 'weekly' ? 7 : 1));
+  return date;
+}
+
+/**
+ * The digest file name for a period, e.g. 2026-10-19 or 2026-W42 (ISO week)
+ * @param start Start of the period
+ */
+export function getDigestName(start: Date, period: DigestPeriod): string {
+  if (period === 'daily') return formatLocalDate(start);
+
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(start);
+  thursday.setDate(thursday.getDate() + 3 - ((thursday.getDay() + 6) % 7));
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  firstThursday.setDate(firstThursday.getDate() + 3 - ((firstThursday.getDay() + 6) % 7));
+  const week = 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+  return `${thursday.getFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+function getFolder(record: EventFrontmatter): string {
+  // Redacted paths are a hash or already just the top-level folder
+  if (record.OOEvent_Privacy === 'hash') return '(private)';
+  if (record.OOEvent_Privacy === 'top-folder') return record.OOEvent_FilePath;
+
+  const index = record.OOEvent_FilePath.lastIndexOf('/');
+  return index > 0 ? record.OOEvent_FilePath.slice(0, index) : '(vault root)';
+}
+
+/**
+ * Summarises the events of one day or week
+ * @param events Events in any order; events outside the period are ignored
+ * @param period Daily or weekly
+ * @param start Start of the period, as returned by getPeriodStart()
+ */
+export function buildDigest(events: EventFrontmatter[], period: DigestPeriod, start: Date): ActivityDigest {
+  const end = addPeriods(start, period, 1);
+  const digest: ActivityDigest = {
+    period,
+    name: getDigestName(start, period),
+    start,
+    end,
+    eventCount: 0,
+    created: [],
+    mostEdited: [],
+    renames: [],
+    deleted: [],
+    activeMinutesByFolder: {},
+    devices: {}
+  };
+
+  // Edits are grouped by file ID so a note renamed during the period is counted once, under its latest path
+  const edits = new Map<string, { path: string; edits: number }>();
+
+  const sorted = events
+    .filter(record => {
+      const time = new Date(record.OOEvent_Timestamp).getTime();
+      return time >= start.getTime() && time < end.getTime();
+    })
+    .sort((a, b) => a.OOEvent_Timestamp.localeCompare(b.OOEvent_Timestamp));
+
+  for (const record of sorted) {
+    digest.eventCount++;
+    increment(digest.devices, record.OOEvent_Hostname || 'unknown');
+
+    const minutes = getEditingMinutes(record);
+    if (minutes > 0) {
+      increment(digest.activeMinutesByFolder, getFolder(record), minutes);
+    }
+
+    // Notes under a privacy rule are counted but never listed
+    if (record.OOEvent_Privacy) continue;
+
+    switch (record.OOEvent_Type) {
+      case 'create':
+        digest.created.push(record.OOEvent_FilePath);
+        break;
+      case 'rename':
+        if (record.OOEvent_OldPath) {
+          digest.renames.push({ oldPath: record.OOEvent_OldPath, newPath: record.OOEvent_NewPath || record.OOEvent_FilePath });
+        }
+        break;
+      case 'delete':
+        digest.deleted.push(record.OOEvent_FilePath);
+        break;
+      case 'save':
+      case 'edit-burst': {
+        const key = record.OOEvent_FileID || record.OOEvent_FilePath;
+        const entry = edits.get(key) || { path: record.OOEvent_FilePath, edits: 0 };
+        entry.path = record.OOEvent_FilePath;
+        entry.edits += record.OOEvent_Type === 'edit-burst' ? Number(record.OOEvent_ModifyCount) || 1 : 1;
+        edits.set(key, entry);
+        break;
+      }
+    }
+  }
+
+  digest.mostEdited = Array.from(edits.values())
+    .sort((a, b) => b.edits - a.edits)
+    .slice(0, MOST_EDITED_LIMIT);
+
+  return digest;
+}
+
+/**
+ * Renders a digest as a plain Markdown note that needs no plugins to read
+ */
+export function createDigestContent(digest: ActivityDigest): string {
+  const lastDay = new Date(digest.end.getTime() - 1);
+  const range = digest.period === 'weekly' ? ` (${formatLocalDate(digest.start)} to ${formatLocalDate(lastDay)})` : '';
+  const link = (path: string) => `[[${path.replace(/\.md$/, '')}]]`;
+  const code = (path: string) => `\`${path}\``;
+  const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '_None_';
+  const sortedEntries = (counts: Record<string, number>) => Object.entries(counts).sort((a, b) => b[1] - a[1]);
+
+  let content = `---
+tags: [obsidian-explorer, digest]
+type: obsidian-event-digest
+OODigest_Period: ${digest.period}
+OODigest_Name: ${digest.name}
+OODigest_Start: ${digest.start.toISOString()}
+OODigest_End: ${digest.end.toISOString()}
+OODigest_EventCount: ${digest.eventCount}
+OODigest_Generated: ${new Date().toISOString()}
+---
+
+# ${digest.period === 'weekly' ? 'Weekly' : 'Daily'} Digest for ${digest.name}${range}
+
+${digest.eventCount} events on ${Object.keys(digest.devices).length} device(s). This is a snapshot written when the ${digest.period === 'weekly' ? 'week' : 'day'} ended and is not updated afterwards.
+
+## Notes Created
+
+${list(digest.created.map(link))}
+
+## Most Edited Notes
+
+`;
+  if (digest.mostEdited.length > 0) {
+    content += `| Note | Edits |\n|------|-------|\n`;
+    digest.mostEdited.forEach(entry => {
+      content += `| ${link(entry.path)} | ${entry.edits} |\n`;
+    });
+  } else {
+    content += `_None_\n`;
+  }
+
+  content += `
+## Renames
+
+${list(digest.renames.map(rename => `${code(rename.oldPath)} → ${link(rename.newPath)}`))}
+
+## Deletions
+
+${list(digest.deleted.map(code))}
+
+## Active Time by Folder
+
+`;
+  const folders = sortedEntries(digest.activeMinutesByFolder);
+  if (folders.length > 0) {
+    content += `| Folder | Minutes |\n|--------|---------|\n`;
+    folders.forEach(([folder, minutes]) => {
+      content += `| ${folder.replace(/\|/g, '\\|')} | ${Math.round(minutes)} |\n`;
+    });
+  } else {
+    content += `_None_\n`;
+  }
+
+  content += `\n## Devices\n\n| Device | Events |\n|--------|--------|\n`;
+  sortedEntries(digest.devices).forEach(([host, count]) => {
+    content += `| ${host.replace(/\|/g, '\\|')} | ${count} |\n`;
+  });
+
+  return content;
+}
+
+/**
+ * Writes daily and weekly digest notes to EventsFolder/digests once each period
+ * has ended. Digests missed while Obsidian was closed are written on the next launch.
+ */
+export class DigestWriter {
+  private app: App;
+  private logger: EventLogger;
+  private getSettings: () => PluginSettings;
+
+  constructor(app: App, logger: EventLogger, getSettings: () => PluginSettings) {
+    this.app = app;
+    this.logger = logger;
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * Writes the digests of every ended period that does not have one yet
+   * @param now The reference time; the period containing it has not ended
+   * @returns Number of digests written
+   */
+  async writeDue(now: Date = new Date()): Promise<number> {
+    // Digests are plain-text notes, so none are written from an encrypted event log
+    if (this.logger.isEncrypted()) return 0;
+
+    const settings = this.getSettings();
+    const periods: DigestPeriod[] = [];
+    if (settings.enableDailyDigest) periods.push('daily');
+    if (settings.enableWeeklyDigest) periods.push('weekly');
+
+    let written = 0;
+    for (const period of periods) {
+      // Walk back until the most recent digest already written
+      const due: Date[] = [];
+      const current = getPeriodStart(now, period);
+      for (let i = 1; i <= CATCH_UP_PERIODS[period]; i++) {
+        const start = addPeriods(current, period, -i);
+        if (this.app.vault.getAbstractFileByPath(this.getDigestPath(start, period))) break;
+        due.unshift(start);
+      }
+      if (due.length === 0) continue;
+
+      const events = await this.logger.readEventsWithBuffered({ from: due[0], to: current });
+      for (const start of due) {
+        const digest = buildDigest(events, period, start);
+        // Periods without activity, e.g. while away from the vault, get no digest
+        if (digest.eventCount === 0) continue;
+
+        await this.writeDigest(digest);
+        written++;
+      }
+    }
+
+    if (written > 0) {
+      console.log(`[ObsidianObserver] Wrote ${written} activity digests`);
+    }
+    return written;
+  }
+
+  private getDigestsFolder(): string {
+    return `${this.logger.getConfig().eventsFolder}/digests`;
+  }
+
+  private getDigestPath(start: Date, period: DigestPeriod): string {
+    return `${this.getDigestsFolder()}/${getDigestName(start, period)}.md`;
+  }
+
+  private async writeDigest(digest: ActivityDigest): Promise<void> {
+    try {
+      const folder = this.getDigestsFolder();
+      if (!this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
+      }
+
+      const filePath = this.getDigestPath(digest.start, digest.period);
+      const content = createDigestContent(digest);
+      const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+      if (existingFile instanceof TFile) {
+        await this.app.vault.modify(existingFile, content);
+      } else {
+        await this.app.vault.create(filePath, content);
+      }
+    } catch (error) {
+      console.error(`[ObsidianObserver] Error writing digest ${digest.name}:`, error);
+    }
+  }
+}
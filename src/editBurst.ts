@@ -0,0 +1,159 @@
+import { ContentDelta, EditBurstSummary } from './types';
+
+/**
+ * A completed run of consecutive modifies of one file
+ */
+export interface EditBurst {
+  path: string;
+  name: string;
+  lastModified: string;
+  fileSize: number | undefined;
+  summary: EditBurstSummary;
+  contentDelta?: ContentDelta;
+}
+
+interface PendingBurst {
+  path: string;
+  name: string;
+  startedAt: string;
+  endedAt: string;
+  lastModified: string;
+  modifyCount: number;
+  firstSize: number | undefined;
+  lastSize: number | undefined;
+  netFromDeltas: number;
+  contentDelta?: ContentDelta;
+  timer: number;
+}
+
+/**
+ * Folds consecutive modify events of the same file into a single edit burst. A burst
+ * closes once the file has not been modified for the coalescing window, or when it
+ * is flushed explicitly (for example when the file loses focus).
+ */
+export class EditBurstCoalescer {
+  private pending = new Map<string, PendingBurst>();
+  private windowMs: number;
+  private onBurst: (burst: EditBurst) => Promise<void>;
+
+  constructor(windowSeconds: number, onBurst: (burst: EditBurst) => Promise<void>) {
+    this.windowMs = windowSeconds * 1000;
+    this.onBurst = onBurst;
+  }
+
+  setWindow(windowSeconds: number): void {
+    this.windowMs = windowSeconds * 1000;
+  }
+
+  /**
+   * Adds a modify of a file to its running burst, starting a new burst if needed
+   */
+  add(path: string, name: string, lastModified: string, fileSize: number | undefined, delta: ContentDelta | null): void {
+    const now = new Date().toISOString();
+    let burst = this.pending.get(path);
+
+    if (!burst) {
+      // The size before the burst is the size after this modify minus its own change
+      const firstSize = fileSize !== undefined && delta ? fileSize - (delta.bytesAdded - delta.bytesRemoved) : fileSize;
+      burst = {
+        path,
+        name,
+        startedAt: now,
+        endedAt: now,
+        lastModified,
+        modifyCount: 0,
+        firstSize,
+        lastSize: fileSize,
+        netFromDeltas: 0,
+        timer: 0
+      };
+      this.pending.set(path, burst);
+    } else {
+      window.clearTimeout(burst.timer);
+    }
+
+    burst.endedAt = now;
+    burst.lastModified = lastModified;
+    burst.lastSize = fileSize;
+    burst.modifyCount++;
+
+    if (delta) {
+      burst.netFromDeltas += delta.bytesAdded - delta.bytesRemoved;
+      burst.contentDelta = burst.contentDelta
+        ? {
+          bytesAdded: burst.contentDelta.bytesAdded + delta.bytesAdded,
+          bytesRemoved: burst.contentDelta.bytesRemoved + delta.bytesRemoved,
+          wordsBefore: burst.contentDelta.wordsBefore,
+          wordsAfter: delta.wordsAfter,
+          linesChanged: burst.contentDelta.linesChanged + delta.linesChanged
+        }
+        : { ...delta };
+    }
+
+    burst.timer = window.setTimeout(() => {
+      this.flush(path);
+    }, this.windowMs);
+  }
+
+  /**
+   * Closes the running burst of a file, if any
+   * @param path The file path
+   */
+  async flush(path: string): Promise<void> {
+    const burst = this.pending.get(path);
+    if (!burst) return;
+
+    window.clearTimeout(burst.timer);
+    this.pending.delete(path);
+
+    // Prefer the measured sizes; fall back to the sum of content deltas
+    const sizeChange = burst.firstSize !== undefined && burst.lastSize !== undefined
+      ? burst.lastSize - burst.firstSize
+      : burst.netFromDeltas;
+
+    try {
+      await this.onBurst({
+        path: burst.path,
+        name: burst.name,
+        lastModified: burst.lastModified,
+        fileSize: burst.lastSize,
+        summary: {
+          startedAt: burst.startedAt,
+          endedAt: burst.endedAt,
+          modifyCount: burst.modifyCount,
+          sizeChange
+        },
+        contentDelta: burst.contentDelta
+      });
+    } catch (error) {
+      console.error('[ObsidianObserver] Error logging edit burst:', error);
+    }
+  }
+
+  /**
+   * Closes all running bursts
+   */
+  async flushAll(): Promise<void> {
+    for (const path of Array.from(this.pending.keys())) {
+      await this.flush(path);
+    }
+  }
+
+  /**
+   * Moves a running burst to a file's new path
+   */
+  rename(oldPath: string, newPath: string, newName: string): void {
+    const burst = this.pending.get(oldPath);
+    if (!burst) return;
+
+    this.pending.delete(oldPath);
+    burst.path = newPath;
+    burst.name = newName;
+    this.pending.set(newPath, burst);
+
+    window.clearTimeout(burst.timer);
+    burst.timer = window.setTimeout(() => {
+      this.flush(newPath);
+    }, this.windowMs);
+  }
+}
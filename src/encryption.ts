@@ -0,0 +1,436 @@
+import { App, Modal, Setting } from 'obsidian';
+import { EventLogger } from './logger';
+import { EncryptionSettings, EventFrontmatter } from './types';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // Recommended nonce size for AES-GCM
+const DATA_KEY_ASSOCIATED_DATA = 'data-key';
+const REWRITE_BATCH_SIZE = 100;
+
+/**
+ * The stored form of an encrypted event: only its GUID is readable, so it can
+ * still be found and deleted without the key
+ */
+export interface EncryptedEnvelope {
+  OOEvent_GUID: string;
+  OOEvent_Encrypted: string; // Base64 of the IV followed by the AES-GCM ciphertext of the JSON record
+}
+
+export function isEncryptedEnvelope(record: unknown): record is EncryptedEnvelope {
+  return !!record && typeof (record as EncryptedEnvelope).OOEvent_Encrypted === 'string';
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => binary += String.fromCharCode(byte));
+  return window.btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = window.atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await window.crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptBytes(key: CryptoKey, data: Uint8Array, associatedData: string): Promise<string> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    data
+  );
+  const payload = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), IV_BYTES);
+  return toBase64(payload);
+}
+
+async function decryptBytes(key: CryptoKey, payload: string, associatedData: string): Promise<Uint8Array> {
+  const bytes = fromBase64(payload);
+  const plaintext = await window.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES), additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    bytes.slice(IV_BYTES)
+  );
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * Encrypts and decrypts stored events with AES-GCM. Events are encrypted with a
+ * random data key, which is stored wrapped by a key derived from the user's
+ * passphrase with PBKDF2, so changing the passphrase only re-wraps the data key.
+ * The data key is only ever held in memory, so the event log has to be unlocked
+ * once per session.
+ */
+export class EventCipher {
+  private settings: EncryptionSettings | null;
+  private dataKey: CryptoKey | null = null;
+  private writePlain = false; // Set while the event log is being decrypted back to plain text
+
+  constructor(settings: EncryptionSettings | null) {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether the event log may hold encrypted events
+   */
+  isEnabled(): boolean {
+    return !!this.settings;
+  }
+
+  /**
+   * Whether events are encrypted when they are written
+   */
+  shouldEncrypt(): boolean {
+    return this.isEnabled() && !this.writePlain;
+  }
+
+  isUnlocked(): boolean {
+    return !!this.dataKey;
+  }
+
+  /**
+   * Unwraps the data key with a passphrase
+   * @returns Whether the passphrase unlocked the event log
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    if (!this.settings) return false;
+
+    try {
+      const passphraseKey = await derivePassphraseKey(passphrase, fromBase64(this.settings.salt), this.settings.iterations);
+      const rawKey = await decryptBytes(passphraseKey, this.settings.wrappedKey, DATA_KEY_ASSOCIATED_DATA);
+      this.dataKey = await window.crypto.subtle.importKey('raw', rawKey, 'AES-GCM', true, ['encrypt', 'decrypt']);
+      return true;
+    } catch (error) {
+      // AES-GCM rejects the wrapped key when the passphrase is wrong
+      return false;
+    }
+  }
+
+  /**
+   * Creates a new data key protected by a passphrase
+   * @returns The settings to persist
+   */
+  async createKey(passphrase: string): Promise<EncryptionSettings> {
+    this.dataKey = await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    this.writePlain = false;
+    return this.wrapKey(passphrase);
+  }
+
+  /**
+   * Protects the data key with a new passphrase, with a fresh salt; stored events stay as they are
+   * @returns The settings to persist
+   */
+  async changePassphrase(passphrase: string): Promise<EncryptionSettings> {
+    if (!this.dataKey) {
+      throw new Error('The ObsidianObserver event log is locked');
+    }
+    return this.wrapKey(passphrase);
+  }
+
+  /**
+   * Writes new events as plain text while the key is still kept for reading encrypted ones
+   * @param plain false to encrypt new events again
+   */
+  setWritePlain(plain: boolean): void {
+    this.writePlain = plain;
+  }
+
+  /**
+   * Forgets the settings and the key once no encrypted events are left
+   */
+  disable(): void {
+    this.settings = null;
+    this.dataKey = null;
+    this.writePlain = false;
+  }
+
+  async encryptRecord(record: EventFrontmatter): Promise<EncryptedEnvelope> {
+    return {
+      OOEvent_GUID: record.OOEvent_GUID,
+      // The GUID is bound to the ciphertext so envelopes cannot be swapped between events
+      OOEvent_Encrypted: await this.encryptValue(record, record.OOEvent_GUID)
+    };
+  }
+
+  async decryptRecord(envelope: EncryptedEnvelope): Promise<EventFrontmatter> {
+    return this.decryptValue<EventFrontmatter>(envelope.OOEvent_Encrypted, envelope.OOEvent_GUID);
+  }
+
+  /**
+   * Encrypts any JSON value
+   * @param label Bound to the ciphertext, so it only decrypts with the same label
+   */
+  async encryptValue(value: unknown, label: string): Promise<string> {
+    if (!this.dataKey) {
+      throw new Error('The ObsidianObserver event log is locked');
+    }
+    return encryptBytes(this.dataKey, new TextEncoder().encode(JSON.stringify(value)), label);
+  }
+
+  async decryptValue<T>(payload: string, label: string): Promise<T> {
+    if (!this.dataKey) {
+      throw new Error('The ObsidianObserver event log is locked');
+    }
+    const plaintext = await decryptBytes(this.dataKey, payload, label);
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  }
+
+  private async wrapKey(passphrase: string): Promise<EncryptionSettings> {
+    if (!this.dataKey) {
+      throw new Error('The ObsidianObserver event log is locked');
+    }
+    const salt = window.crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const passphraseKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const rawKey = new Uint8Array(await window.crypto.subtle.exportKey('raw', this.dataKey));
+    this.settings = {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      wrappedKey: await encryptBytes(passphraseKey, rawKey, DATA_KEY_ASSOCIATED_DATA)
+    };
+    return this.settings;
+  }
+}
+
+/**
+ * A list kept in vault-specific localStorage, such as the event journal, that is
+ * encrypted while encryption is enabled. Nothing is saved while the event log is
+ * locked, so entries added then are only held in memory until it is unlocked.
+ */
+export class SealedLocalStorage<T> {
+  private app: App;
+  private key: string;
+  private cipher?: EventCipher;
+  private sealed: string | null = null; // Stored ciphertext not decrypted yet; saving waits so it is not overwritten
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(app: App, key: string, cipher?: EventCipher) {
+    this.app = app;
+    this.key = key;
+    this.cipher = cipher;
+  }
+
+  /**
+   * Reads the stored entries
+   * @returns The entries, or an empty list while they are encrypted and the event log is locked
+   */
+  load(): T[] {
+    const stored = this.app.loadLocalStorage(this.key);
+    if (Array.isArray(stored)) {
+      return stored;
+    }
+    if (stored && typeof stored.encrypted === 'string') {
+      this.sealed = stored.encrypted;
+    }
+    return [];
+  }
+
+  /**
+   * Decrypts entries that load() could not read, once the event log is unlocked
+   * @returns The entries, or an empty list if there were none
+   */
+  async unseal(): Promise<T[]> {
+    if (this.sealed === null || !this.cipher?.isUnlocked()) return [];
+
+    try {
+      const entries = await this.cipher.decryptValue<T[]>(this.sealed, this.key);
+      this.sealed = null;
+      return entries;
+    } catch (error) {
+      console.error(`[ObsidianObserver] Could not decrypt ${this.key}, it was written with another key:`, error);
+      this.sealed = null;
+      return [];
+    }
+  }
+
+  /**
+   * Saves the entries, encrypted while encryption is enabled; saves run in order
+   */
+  save(entries: T[]): void {
+    const snapshot = [...entries];
+    this.saving = this.saving.then(async () => {
+      try {
+        if (this.sealed !== null) return;
+        if (snapshot.length === 0) {
+          this.app.saveLocalStorage(this.key, null);
+        } else if (!this.cipher?.shouldEncrypt()) {
+          this.app.saveLocalStorage(this.key, snapshot);
+        } else if (this.cipher.isUnlocked()) {
+          this.app.saveLocalStorage(this.key, { encrypted: await this.cipher.encryptValue(snapshot, this.key) });
+        }
+      } catch (error) {
+        console.error(`[ObsidianObserver] Error writing ${this.key}:`, error);
+      }
+    });
+  }
+}
+
+/**
+ * Turns encryption of the stored event log on and off and changes its passphrase.
+ * Events are rewritten in place, and the settings always allow reading every
+ * event, so an interrupted run leaves a mix of plain and encrypted events that can
+ * all still be read, and can simply be run again.
+ */
+export class EncryptionManager {
+  private logger: EventLogger;
+  private cipher: EventCipher;
+  private saveSettings: (settings: EncryptionSettings | null) => Promise<void>;
+
+  constructor(logger: EventLogger, cipher: EventCipher, saveSettings: (settings: EncryptionSettings | null) => Promise<void>) {
+    this.logger = logger;
+    this.cipher = cipher;
+    this.saveSettings = saveSettings;
+  }
+
+  /**
+   * Encrypts every stored event, and every new one, with a passphrase
+   * @returns Number of events rewritten
+   */
+  async enable(passphrase: string): Promise<number> {
+    if (this.cipher.isEnabled()) {
+      throw new Error('The event log is already encrypted');
+    }
+    const records = await this.readAll();
+    // Settings are saved first so events encrypted before an interruption stay readable
+    await this.saveSettings(await this.cipher.createKey(passphrase));
+    this.logger.persistLocalCopies();
+    return this.rewrite(records);
+  }
+
+  /**
+   * Protects the event log with a new passphrase. Only the wrapped data key
+   * changes, so the change is saved in one step and no event is rewritten.
+   */
+  async changePassphrase(passphrase: string): Promise<void> {
+    if (!this.cipher.isUnlocked()) {
+      throw new Error('Unlock the event log first');
+    }
+    await this.saveSettings(await this.cipher.changePassphrase(passphrase));
+  }
+
+  /**
+   * Decrypts the event log back to plain text and turns encryption off
+   * @returns Number of events rewritten
+   */
+  async decryptAll(): Promise<number> {
+    const records = await this.readAll();
+
+    // The settings and key are kept until every event is plain text, so an interrupted run can be retried
+    this.cipher.setWritePlain(true);
+    try {
+      const count = await this.rewrite(records);
+      this.cipher.disable();
+      await this.saveSettings(null);
+      this.logger.persistLocalCopies();
+      return count;
+    } catch (error) {
+      this.cipher.setWritePlain(false);
+      throw error;
+    }
+  }
+
+  private async readAll(): Promise<EventFrontmatter[]> {
+    if (this.cipher.isEnabled() && !this.cipher.isUnlocked()) {
+      throw new Error('Unlock the event log first');
+    }
+    await this.logger.flushBuffer();
+    return this.logger.readEvents();
+  }
+
+  private async rewrite(records: EventFrontmatter[]): Promise<number> {
+    for (let i = 0; i < records.length; i += REWRITE_BATCH_SIZE) {
+      await this.logger.rewriteEvents(records.slice(i, i + REWRITE_BATCH_SIZE));
+    }
+    console.log(`[ObsidianObserver] Rewrote ${records.length} events ${this.cipher.shouldEncrypt() ? 'encrypted' : 'as plain text'}`);
+    return records.length;
+  }
+}
+
+/**
+ * Asks for a passphrase, optionally twice to guard against typos
+ */
+export class PassphraseModal extends Modal {
+  private title: string;
+  private description: string;
+  private confirm: boolean;
+  private onSubmit: (passphrase: string) => Promise<boolean>;
+
+  /**
+   * @param onSubmit Called with the passphrase; returns false to keep the modal open, e.g. for a wrong passphrase
+   */
+  constructor(app: App, title: string, description: string, confirm: boolean, onSubmit: (passphrase: string) => Promise<boolean>) {
+    super(app);
+    this.title = title;
+    this.description = description;
+    this.confirm = confirm;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: this.title });
+    contentEl.createEl('p', { text: this.description });
+
+    let passphrase = '';
+    let confirmation = '';
+    new Setting(contentEl)
+      .setName('Passphrase')
+      .addText(text => {
+        text.inputEl.type = 'password';
+        text.onChange(value => passphrase = value);
+      });
+    if (this.confirm) {
+      new Setting(contentEl)
+        .setName('Confirm Passphrase')
+        .addText(text => {
+          text.inputEl.type = 'password';
+          text.onChange(value => confirmation = value);
+        });
+    }
+    const errorEl = contentEl.createEl('p', { cls: 'mod-warning' });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('OK')
+        .setCta()
+        .onClick(async () => {
+          if (!passphrase) {
+            errorEl.setText('Enter a passphrase.');
+            return;
+          }
+          if (this.confirm && passphrase !== confirmation) {
+            errorEl.setText('The passphrases do not match.');
+            return;
+          }
+          button.setDisabled(true);
+          if (await this.onSubmit(passphrase)) {
+            this.close();
+          } else {
+            button.setDisabled(false);
+          }
+        }))
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -1,164 +1,90 @@
-import { App, TFile, TAbstractFile, EventRef } from 'obsidian';
+import { App, TFile, TFolder, TAbstractFile, EventRef, FileView, MarkdownView, CachedMetadata } from 'obsidian';
 import { EventLogger } from './logger';
-import { LoggerConfig, EventLog } from './types';
+import { LoggerConfig, EventLog, EventType, CloseReason } from './types';
 import { generateBase32Guid } from './utils';
+import { ContentDeltaTracker } from './contentDelta';
+import { EditBurst, EditBurstCoalescer } from './editBurst';
+import { FileFilter } from './filterRules';
+import { DeviceIdentity } from './deviceIdentity';
+import { FileIdentityRegistry } from './fileIdentity';
+import { FolderEventType, FolderOperation, FolderOperationTracker } from './folderEvents';
+import { PluginWriteRegistry } from './pluginWrites';
+import { MetadataChangeTracker, describeMetadataDiff } from './metadataChanges';
+import { LinkTracker } from './linkChanges';
+import { ACTIVE_TIME_EVENT_TYPES, ActiveTimeTracker, MIN_SAMPLE_MS } from './activeTime';
+
+interface ActiveFileState {
+  path: string;
+  name: string;
+  openedAt: number;
+  openGuid: string;
+}
 
 export class EventHandlers {
   private app: App;
   private logger: EventLogger;
   private eventRefs: EventRef[] = [];
   private isProcessingEvent = false;
-  private excludedFiles: string[] = []; // All configured debug files are now excluded by the shouldExcludeFile method
   private loggerConfig: LoggerConfig;
   private hasLoggedAppReady = false; // Flag to prevent multiple ready events
-
-  constructor(app: App, logger: EventLogger) {
+  private activeFile: ActiveFileState | null = null; // The note whose open event is awaiting a close
+  private contentTracker = new ContentDeltaTracker(); // Last known content, used for save deltas
+  private editBursts: EditBurstCoalescer; // Folds autosave modify storms into edit bursts
+  private fileFilter: FileFilter; // User-configurable include/exclude rules
+  private deviceIdentity: DeviceIdentity;
+  private fileIdentity: FileIdentityRegistry; // Persistent file IDs that follow renames
+  private metadataTracker = new MetadataChangeTracker(); // Last known tags, aliases and properties
+  private linkTracker = new LinkTracker(); // Last known outgoing links
+  private pendingLinkChecks = new Set<string>(); // Notes that changed and whose links are awaiting resolution
+  private activeTime: ActiveTimeTracker; // Active editing time per note, from user activity
+  private lastActivitySample: { path: string; time: number } | null = null; // Throttles keydown and mousemove floods per note
+  private pluginWrites: PluginWriteRegistry; // Content the plugin wrote into notes itself, which is not the user's editing
+  private folderOperations = new FolderOperationTracker(operation => this.logFolderOperation(operation)); // Groups per-file events under folder events
+
+  constructor(app: App, logger: EventLogger, deviceIdentity: DeviceIdentity, fileIdentity: FileIdentityRegistry, pluginWrites: PluginWriteRegistry) {
     this.app = app;
     this.logger = logger;
+    this.deviceIdentity = deviceIdentity;
+    this.fileIdentity = fileIdentity;
+    this.pluginWrites = pluginWrites;
     this.loggerConfig = logger.getConfig(); // We'll need to add this method to EventLogger
+    this.editBursts = new EditBurstCoalescer(this.loggerConfig.editBurstWindowSeconds, burst => this.logEditBurst(burst));
+    this.fileFilter = new FileFilter(app, this.loggerConfig);
+    this.activeTime = new ActiveTimeTracker(this.loggerConfig.idleThresholdSeconds);
   }
 
   updateLoggerConfig(newConfig: LoggerConfig) {
     this.loggerConfig = newConfig;
+    this.editBursts.setWindow(newConfig.editBurstWindowSeconds);
+    this.fileFilter.updateConfig(newConfig);
+    this.activeTime.setIdleThreshold(newConfig.idleThresholdSeconds);
     console.log('[ObsidianObserver] Event handlers configuration updated:', newConfig);
   }
 
-  private getHostname(): string {
-    // Create a meaningful machine identifier from available Obsidian context
-    try {
-      // Method 1: Try to use Node.js os module (most reliable - uses uv_os_gethostname)
-      if (typeof require !== 'undefined') {
-        try {
-          const os = require('os');
-          if (os && typeof os.hostname === 'function') {
-            const hostname = os.hostname();
-            console.log('[ObsidianObserver] os.hostname() result:', hostname);
-            
-            // Check if we got a meaningful hostname (not localhost or empty)
-            if (hostname && 
-                hostname.trim() && 
-                hostname !== 'localhost' && 
-                hostname !== '127.0.0.1' &&
-                hostname !== '::1') {
-              return hostname;
-            }
-          }
-        } catch (osError) {
-          console.log('[ObsidianObserver] os module not available or error:', osError);
-        }
-      }
-      
-      // Method 2: Try to get from environment variables (fallback)
-      if (typeof process !== 'undefined' && process.env) {
-        // macOS and Linux
-        if (process.env.HOSTNAME && process.env.HOSTNAME !== 'localhost') {
-          return process.env.HOSTNAME;
-        }
-        
-        // Windows
-        if (process.env.COMPUTERNAME && process.env.COMPUTERNAME !== 'localhost') {
-          return process.env.COMPUTERNAME;
-        }
-        
-        // Alternative Windows environment variable
-        if (process.env.USERDOMAIN && process.env.USERDOMAIN !== 'localhost') {
-          return process.env.USERDOMAIN;
-        }
-        
-        // Try USER environment variable
-        if (process.env.USER && process.env.USER !== 'localhost') {
-          return process.env.USER;
-        }
-      }
-      
-      // Method 3: Create a meaningful identifier from Obsidian context
-      let machineId = 'obsidian';
-      
-      // Try to get from vault name
-      if (this.app && this.app.vault) {
-        try {
-          const vaultName = this.app.vault.getName();
-          if (vaultName && vaultName.trim() && vaultName !== 'vault') {
-            // Clean the vault name and use it as machine identifier
-            const cleanName = vaultName.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
-            if (cleanName.length > 0) {
-              machineId = cleanName;
-            }
-          }
-        } catch (vaultError) {
-          console.log('[ObsidianObserver] Could not get vault name:', vaultError);
-        }
-      }
-      
-      // Method 4: Create a unique machine identifier based on available info
-      let identifier = machineId;
-      
-      // Add OS information from navigator
-      if (typeof navigator !== 'undefined' && navigator.platform) {
-        if (navigator.platform.includes('Mac')) {
-          identifier += '-mac';
-        } else if (navigator.platform.includes('Win')) {
-          identifier += '-win';
-        } else if (navigator.platform.includes('Linux')) {
-          identifier += '-linux';
-        }
-      }
-      
-      // Add a unique session identifier
-      const sessionId = Math.random().toString(36).substring(2, 6);
-      const finalId = `${identifier}-${sessionId}`;
-      
-      console.log('[ObsidianObserver] Generated machine identifier:', finalId);
-      return finalId;
-      
-    } catch (error) {
-      console.warn('[ObsidianObserver] Could not determine hostname:', error);
-      // Generate a unique fallback identifier
-      const fallbackId = Math.random().toString(36).substring(2, 8);
-      return `fallback-${fallbackId}`;
-    }
-  }
-
   /**
    * Determines if a file should be excluded from logging
    * @param filePath The path of the file to check
+   * @param eventType The event being logged, for rules limited to certain event types
    * @returns true if the file should be excluded from logging
    */
-  private shouldExcludeFile(filePath: string): boolean {
-    // Skip ALL changes to the configured events folder - this prevents indexing loops
-    if (filePath.startsWith(this.loggerConfig.eventsFolder)) {
-      return true;
-    }
-    
-    // Check for Obsidian internal files and directories
-    if (filePath.startsWith('.obsidian/')) {
-      return true;
-    }
-    
-    // Check for temporary files and indexing artifacts
-    if (filePath.includes('.temp') || filePath.includes('.tmp') || filePath.includes('.cache')) {
-      return true;
-    }
-    
-    // Check for hidden files (starting with .)
-    if (filePath.startsWith('.')) {
-      return true;
-    }
-    
-    // Check specific excluded files
-    return this.excludedFiles.includes(filePath);
+  private shouldExcludeFile(filePath: string, eventType: EventType): boolean {
+    return this.fileFilter.evaluate(filePath, eventType).excluded;
   }
 
   registerEventHandlers(): void {
     try {
-      // Register file open events
+      // Register file open events (a null file means the last note was closed)
       const openRef = this.app.workspace.on('file-open', (file: TFile | null) => {
-        if (file) {
-          this.handleFileOpen(file);
-        }
+        this.handleActiveFileChange(file);
       });
       this.eventRefs.push(openRef);
 
+      // Register layout changes to detect the active note's leaf being closed
+      const layoutRef = this.app.workspace.on('layout-change', () => {
+        this.handleLayoutChange();
+      });
+      this.eventRefs.push(layoutRef);
+
       // Register file save/modify events
       const saveRef = this.app.vault.on('modify', (file: TAbstractFile) => {
         if (file instanceof TFile) {
@@ -167,10 +93,44 @@ export class EventHandlers {
       });
       this.eventRefs.push(saveRef);
 
+      // Register file create events once the vault has loaded, so the create
+      // events Obsidian fires for every existing file during startup are ignored
+      this.app.workspace.onLayoutReady(() => {
+        const createRef = this.app.vault.on('create', (file: TAbstractFile) => {
+          if (file instanceof TFile) {
+            this.handleFileCreate(file);
+          } else if (file instanceof TFolder) {
+            this.handleFolderEvent('folder-create', file);
+          }
+        });
+        this.eventRefs.push(createRef);
+
+        // Record every note's current metadata so the first change can be diffed
+        this.seedMetadataSnapshots();
+        const metadataRef = this.app.metadataCache.on('changed', (file: TFile, data: string, cache: CachedMetadata) => {
+          // The plugin's own writes only move the metadata and link baselines
+          if (this.pluginWrites.isPluginWrite(file.path, data)) {
+            this.metadataTracker.remember(file.path, cache);
+            return;
+          }
+          this.pendingLinkChecks.add(file.path);
+          this.handleMetadataChange(file, cache);
+        });
+        this.eventRefs.push(metadataRef);
+
+        // Links are compared once the metadata cache has resolved the changed note
+        const resolveRef = this.app.metadataCache.on('resolve', (file: TFile) => {
+          this.handleLinksResolved(file);
+        });
+        this.eventRefs.push(resolveRef);
+      });
+
       // Register file rename events
       const renameRef = this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
         if (file instanceof TFile) {
           this.handleFileRename(file, oldPath);
+        } else if (file instanceof TFolder) {
+          this.handleFolderRename(file, oldPath);
         }
       });
       this.eventRefs.push(renameRef);
@@ -179,6 +139,8 @@ export class EventHandlers {
       const deleteRef = this.app.vault.on('delete', (file: TAbstractFile) => {
         if (file instanceof TFile) {
           this.handleFileDelete(file);
+        } else if (file instanceof TFolder) {
+          this.handleFolderEvent('folder-delete', file);
         }
       });
       this.eventRefs.push(deleteRef);
@@ -189,7 +151,7 @@ export class EventHandlers {
       });
       this.eventRefs.push(readyRef);
 
-      console.log('[ObsidianObserver] Event handlers registered successfully (open, save, rename, delete, layout-ready)');
+      console.log('[ObsidianObserver] Event handlers registered successfully (open, close, save, create, rename, delete, folder, metadata, links, layout-ready)');
     } catch (error) {
       console.error('[ObsidianObserver] Error registering event handlers:', error);
     }
@@ -212,6 +174,126 @@ export class EventHandlers {
     }
   }
 
+  /**
+   * Records keyboard, mouse or scroll activity, counting it as active time for the
+   * note in the active editor when the activity happened inside that editor
+   * @param target The element the DOM event was dispatched to
+   */
+  recordActivity(target: EventTarget | null): void {
+    if (this.loggerConfig.idleThresholdSeconds <= 0) return;
+
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!view || !view.file || !(target instanceof Node) || !view.containerEl.contains(target)) {
+      return;
+    }
+
+    // Only editor activity counts towards the throttle, so the filter rules are resolved at most once per sample
+    const path = view.file.path;
+    const now = Date.now();
+    if (this.lastActivitySample?.path === path && now - this.lastActivitySample.time < MIN_SAMPLE_MS) {
+      return;
+    }
+    this.lastActivitySample = { path, time: now };
+
+    // Active time is only reported on these events, so it is not worth tracking if all of them are filtered out
+    if (ACTIVE_TIME_EVENT_TYPES.every(eventType => this.shouldExcludeFile(path, eventType))) {
+      return;
+    }
+    this.activeTime.recordActivity(path, now);
+  }
+
+  private async handleActiveFileChange(file: TFile | null): Promise<void> {
+    // Close the previously active note when focus moves to another note or no note
+    if (this.activeFile && this.activeFile.path !== file?.path) {
+      await this.closeActiveFile(file ? 'switch' : 'leaf-closed');
+    }
+
+    // Only log an open when the active note actually changes
+    if (file && this.activeFile?.path !== file.path) {
+      await this.handleFileOpen(file);
+    }
+  }
+
+  private async handleLayoutChange(): Promise<void> {
+    if (!this.activeFile) {
+      return;
+    }
+
+    // Check whether any leaf still shows the active note
+    const activePath = this.activeFile.path;
+    let isStillOpen = false;
+    this.app.workspace.iterateAllLeaves(leaf => {
+      if (leaf.view instanceof FileView && leaf.view.file?.path === activePath) {
+        isStillOpen = true;
+      }
+    });
+
+    if (!isStillOpen) {
+      await this.closeActiveFile('leaf-closed');
+    }
+  }
+
+  /**
+   * Closes the active note and any running edit bursts, e.g. when Obsidian quits
+   * @param reason Why tracking is finishing
+   */
+  async finishTracking(reason: CloseReason): Promise<void> {
+    await this.closeActiveFile(reason);
+    await this.editBursts.flushAll();
+    await this.folderOperations.flushAll();
+  }
+
+  /**
+   * Logs a close event for the currently active note, paired with its open event
+   * @param reason Why the note is being closed
+   */
+  async closeActiveFile(reason: CloseReason): Promise<void> {
+    // Take the active note synchronously so overlapping calls cannot close it twice
+    const closing = this.activeFile;
+    if (!closing) {
+      return;
+    }
+    this.activeFile = null;
+
+    // The note lost focus, so its running edit burst is complete
+    await this.editBursts.flush(closing.path);
+
+    try {
+      const eventLog: EventLog = {
+        guid: generateBase32Guid(),
+        timestamp: new Date().toISOString(),
+        eventType: 'close',
+        filePath: closing.path,
+        fileName: closing.name,
+        vaultName: this.app.vault.getName(),
+        hostname: this.deviceIdentity.getHostname(),
+        metadata: {
+          lastModified: new Date().toISOString(),
+          openGuid: closing.openGuid,
+          dwellSeconds: Math.round((Date.now() - closing.openedAt) / 1000),
+          activeSeconds: this.activeTime.take(closing.path),
+          closeReason: reason
+        }
+      };
+
+      await this.logger.logEvent(eventLog);
+    } catch (error) {
+      console.error('[ObsidianObserver] Error handling file close event:', error);
+    }
+  }
+
+  private async rememberContent(file: TFile): Promise<void> {
+    // Only text notes are compared; binary attachments are skipped
+    if (file.extension !== 'md') {
+      return;
+    }
+    try {
+      this.contentTracker.remember(file.path, await this.app.vault.cachedRead(file));
+    } catch (error) {
+      console.warn('[ObsidianObserver] Error reading file content:', error);
+    }
+  }
+
   private async handleFileOpen(file: TFile): Promise<void> {
     try {
       // Prevent recursive event processing
@@ -220,12 +302,21 @@ export class EventHandlers {
       }
       
       // Skip logging events for excluded files to prevent recursion
-      if (this.shouldExcludeFile(file.path)) {
+      if (this.shouldExcludeFile(file.path, 'open')) {
         return;
       }
       
       this.isProcessingEvent = true;
 
+      // Track the note as active so its close event can be paired with this open
+      const guid = generateBase32Guid();
+      this.activeFile = {
+        path: file.path,
+        name: file.name,
+        openedAt: Date.now(),
+        openGuid: guid
+      };
+
       // Get file metadata for last modified time and size
       let metadata;
       try {
@@ -239,15 +330,18 @@ export class EventHandlers {
       } catch (error) {
         console.warn('[ObsidianObserver] Error getting file metadata:', error);
       }
+
+      // Remember the content so the next save can be compared against it
+      await this.rememberContent(file);
       
       const eventLog: EventLog = {
-        guid: generateBase32Guid(),
+        guid,
         timestamp: new Date().toISOString(),
         eventType: 'open',
         filePath: file.path,
         fileName: file.name,
         vaultName: this.app.vault.getName(),
-        hostname: this.getHostname(),
+        hostname: this.deviceIdentity.getHostname(),
         metadata
       };
 
@@ -267,14 +361,14 @@ export class EventHandlers {
       }
       
       // Skip logging events for excluded files to prevent recursion
-      if (this.shouldExcludeFile(file.path)) {
+      if (this.shouldExcludeFile(file.path, 'save')) {
         return;
       }
       
       this.isProcessingEvent = true;
 
       // Get file metadata for last modified time and size
-      let metadata;
+      let metadata: EventLog['metadata'];
       try {
         const stat = await this.app.vault.adapter.stat(file.path);
         if (stat) {
@@ -287,6 +381,35 @@ export class EventHandlers {
         console.warn('[ObsidianObserver] Error getting file metadata:', error);
       }
 
+      // Compare the saved content against the last known version of the note
+      if (file.extension === 'md') {
+        try {
+          const content = await this.app.vault.read(file);
+          const contentDelta = this.contentTracker.update(file.path, content);
+          // The plugin's own writes, such as the daily note section, only move the content baseline
+          if (this.pluginWrites.isPluginWrite(file.path, content)) {
+            return;
+          }
+          if (contentDelta) {
+            metadata = { ...metadata, contentDelta };
+          }
+        } catch (error) {
+          console.warn('[ObsidianObserver] Error computing content delta:', error);
+        }
+      }
+
+      // Fold the modify into the file's running edit burst when coalescing is enabled
+      if (this.loggerConfig.editBurstWindowSeconds > 0) {
+        this.editBursts.add(
+          file.path,
+          file.name,
+          metadata?.lastModified || new Date().toISOString(),
+          metadata?.fileSize,
+          metadata?.contentDelta || null
+        );
+        return;
+      }
+
       const eventLog: EventLog = {
         guid: generateBase32Guid(),
         timestamp: new Date().toISOString(),
@@ -294,8 +417,8 @@ export class EventHandlers {
         filePath: file.path,
         fileName: file.name,
         vaultName: this.app.vault.getName(),
-        hostname: this.getHostname(),
-        metadata
+        hostname: this.deviceIdentity.getHostname(),
+        metadata: { ...metadata, activeSeconds: this.activeTime.take(file.path) }
       };
 
       await this.logger.logEvent(eventLog);
@@ -306,19 +429,95 @@ export class EventHandlers {
     }
   }
 
-  private async handleFileRename(file: TFile, oldPath: string): Promise<void> {
+  private async logEditBurst(burst: EditBurst): Promise<void> {
+    const eventLog: EventLog = {
+      guid: generateBase32Guid(),
+      timestamp: new Date().toISOString(),
+      eventType: 'edit-burst',
+      filePath: burst.path,
+      fileName: burst.name,
+      vaultName: this.app.vault.getName(),
+      hostname: this.deviceIdentity.getHostname(),
+      metadata: {
+        lastModified: burst.lastModified,
+        fileSize: burst.fileSize,
+        contentDelta: burst.contentDelta,
+        burst: burst.summary,
+        activeSeconds: this.activeTime.take(burst.path)
+      }
+    };
+
+    await this.logger.logEvent(eventLog);
+  }
+
+  private async handleFileCreate(file: TFile): Promise<void> {
     try {
-      // Prevent recursive event processing
-      if (this.isProcessingEvent) {
+      // Skip logging events for excluded files, including the plugin's own event notes, to prevent recursion.
+      // The shared processing guard is not taken, so a create overlapping another event, or the
+      // open Obsidian fires right after it, is not dropped.
+      if (this.shouldExcludeFile(file.path, 'create')) {
         return;
       }
-      
-      // Skip logging events for excluded files to prevent recursion
-      if (this.shouldExcludeFile(file.path) || this.shouldExcludeFile(oldPath)) {
+
+      // A new file gets a new identity, even if a deleted file used the same path
+      this.fileIdentity.assignNew(file.path);
+      this.metadataTracker.remember(file.path, null);
+      this.linkTracker.remember(file.path, []);
+
+      // Linked before any await, while a folder operation is still settling
+      const guid = generateBase32Guid();
+      const parentGuid = this.folderOperations.linkChild(guid, file.path);
+
+      // Remember the initial content so the first save has a baseline
+      await this.rememberContent(file);
+
+      const eventLog: EventLog = {
+        guid,
+        timestamp: new Date().toISOString(),
+        eventType: 'create',
+        filePath: file.path,
+        fileName: file.name,
+        vaultName: this.app.vault.getName(),
+        hostname: this.deviceIdentity.getHostname(),
+        metadata: {
+          lastModified: new Date(file.stat.mtime).toISOString(),
+          fileSize: file.stat.size,
+          folder: file.parent ? file.parent.path : '',
+          parentGuid
+        }
+      };
+
+      await this.logger.logEvent(eventLog);
+    } catch (error) {
+      console.error('[ObsidianObserver] Error handling file create event:', error);
+    }
+  }
+
+  private async handleFileRename(file: TFile, oldPath: string): Promise<void> {
+    try {
+      // Keep following the active note across renames so its close still pairs up
+      if (this.activeFile && this.activeFile.path === oldPath) {
+        this.activeFile.path = file.path;
+        this.activeFile.name = file.name;
+      }
+      this.contentTracker.rename(oldPath, file.path);
+      this.editBursts.rename(oldPath, file.path, file.name);
+      this.fileIdentity.rename(oldPath, file.path);
+      this.metadataTracker.rename(oldPath, file.path);
+      this.linkTracker.rename(oldPath, file.path);
+      this.activeTime.rename(oldPath, file.path);
+      this.pluginWrites.rename(oldPath, file.path);
+
+      // Skip logging events for excluded files, including the plugin's own event notes, to prevent recursion.
+      // The shared processing guard is not taken: a folder move reports its files back to back,
+      // and every one of them has to be logged and linked to the folder event.
+      if (this.shouldExcludeFile(file.path, 'rename') || this.shouldExcludeFile(oldPath, 'rename')) {
         return;
       }
-      
-      this.isProcessingEvent = true;
+
+      // Linked before any await, while the folder operation is still settling
+      const guid = generateBase32Guid();
+      const parentGuid = this.folderOperations.linkChild(guid, file.path, oldPath);
 
       // Get file metadata for last modified time and size
       let metadata;
@@ -337,48 +536,58 @@ export class EventHandlers {
       }
 
       const eventLog: EventLog = {
-        guid: generateBase32Guid(),
+        guid,
         timestamp: new Date().toISOString(),
         eventType: 'rename',
         filePath: file.path,
         fileName: file.name,
         vaultName: this.app.vault.getName(),
-        hostname: this.getHostname(),
-        metadata
+        hostname: this.deviceIdentity.getHostname(),
+        metadata: {
+          ...metadata,
+          parentGuid
+        }
       };
 
       await this.logger.logEvent(eventLog);
     } catch (error) {
       console.error('[ObsidianObserver] Error handling file rename event:', error);
-    } finally {
-      this.isProcessingEvent = false;
     }
   }
 
   private async handleFileDelete(file: TFile): Promise<void> {
     try {
-      // Prevent recursive event processing
-      if (this.isProcessingEvent) {
+      this.contentTracker.forget(file.path);
+      this.metadataTracker.forget(file.path);
+      this.linkTracker.forget(file.path);
+      this.activeTime.forget(file.path);
+      this.pluginWrites.forget(file.path);
+
+      // Skip logging events for excluded files, including the plugin's own event notes, to prevent recursion.
+      // The shared processing guard is not taken: a folder delete reports its files back to back,
+      // and every one of them has to be logged and linked to the folder event.
+      const excluded = this.shouldExcludeFile(file.path, 'delete');
+
+      // Linked before any await, while the folder operation is still settling
+      const guid = generateBase32Guid();
+      const parentGuid = excluded ? undefined : this.folderOperations.linkChild(guid, file.path);
+
+      await this.editBursts.flush(file.path);
+      if (excluded) {
         return;
       }
-      
-      // Skip logging events for excluded files to prevent recursion
-      if (this.shouldExcludeFile(file.path)) {
-        return;
-      }
-      
-      this.isProcessingEvent = true;
 
       const eventLog: EventLog = {
-        guid: generateBase32Guid(),
+        guid,
         timestamp: new Date().toISOString(),
         eventType: 'delete',
         filePath: file.path,
         fileName: file.name,
         vaultName: this.app.vault.getName(),
-        hostname: this.getHostname(),
+        hostname: this.deviceIdentity.getHostname(),
         metadata: {
-          lastModified: new Date().toISOString()
+          lastModified: new Date().toISOString(),
+          parentGuid
         }
       };
 
@@ -386,8 +595,155 @@ export class EventHandlers {
     } catch (error) {
       console.error('[ObsidianObserver] Error handling file delete event:', error);
     } finally {
-      this.isProcessingEvent = false;
+      // Only forgotten after the delete event has been stamped with it
+      this.fileIdentity.forget(file.path);
+    }
+  }
+
+  private seedMetadataSnapshots(): void {
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (!this.shouldExcludeFile(file.path, 'metadata-change')) {
+        this.metadataTracker.remember(file.path, this.app.metadataCache.getFileCache(file));
+      }
+      if (!this.shouldExcludeFile(file.path, 'link-added')) {
+        this.linkTracker.remember(file.path, this.getOutgoingLinks(file));
+      }
+    }
+  }
+
+  private getOutgoingLinks(file: TFile): string[] {
+    return Object.keys(this.app.metadataCache.resolvedLinks[file.path] || {});
+  }
+
+  private async handleLinksResolved(file: TFile): Promise<void> {
+    try {
+      // Notes are also re-resolved when other notes are created or deleted; only
+      // changes the note itself made are reported, the rest just update the baseline
+      const changed = this.pendingLinkChecks.delete(file.path);
+      if (this.shouldExcludeFile(file.path, 'link-added')) {
+        return;
+      }
+
+      const diff = this.linkTracker.update(file.path, this.getOutgoingLinks(file));
+      if (!diff || !changed) {
+        return;
+      }
+
+      for (const targetPath of diff.added) {
+        await this.logLinkChange('link-added', file, targetPath);
+      }
+      for (const targetPath of diff.removed) {
+        await this.logLinkChange('link-removed', file, targetPath);
+      }
+    } catch (error) {
+      console.error('[ObsidianObserver] Error handling link changes:', error);
+    }
+  }
+
+  private async logLinkChange(eventType: 'link-added' | 'link-removed', file: TFile, targetPath: string): Promise<void> {
+    const eventLog: EventLog = {
+      guid: generateBase32Guid(),
+      timestamp: new Date().toISOString(),
+      eventType,
+      filePath: file.path,
+      fileName: file.name,
+      vaultName: this.app.vault.getName(),
+      hostname: this.deviceIdentity.getHostname(),
+      metadata: {
+        lastModified: new Date(file.stat.mtime).toISOString(),
+        sourcePath: file.path,
+        targetPath
+      }
+    };
+
+    await this.logger.logEvent(eventLog);
+  }
+
+  private async handleMetadataChange(file: TFile, cache: CachedMetadata): Promise<void> {
+    try {
+      // Skip excluded files, including the plugin's own event notes
+      if (this.shouldExcludeFile(file.path, 'metadata-change')) {
+        return;
+      }
+
+      const diff = this.metadataTracker.update(file.path, cache);
+      if (!diff) {
+        return;
+      }
+
+      const eventLog: EventLog = {
+        guid: generateBase32Guid(),
+        timestamp: new Date().toISOString(),
+        eventType: 'metadata-change',
+        filePath: file.path,
+        fileName: file.name,
+        vaultName: this.app.vault.getName(),
+        hostname: this.deviceIdentity.getHostname(),
+        metadata: {
+          lastModified: new Date(file.stat.mtime).toISOString(),
+          metadataChange: diff,
+          changeSummary: describeMetadataDiff(diff)
+        }
+      };
+
+      await this.logger.logEvent(eventLog);
+    } catch (error) {
+      console.error('[ObsidianObserver] Error handling metadata change event:', error);
+    }
+  }
+
+  private handleFolderRename(folder: TFolder, oldPath: string): void {
+    // Keep file IDs in step even if Obsidian reports no per-file renames
+    this.fileIdentity.renameFolder(oldPath, folder.path);
+
+    const oldParent = oldPath.includes('/') ? oldPath.substring(0, oldPath.lastIndexOf('/')) : '';
+    const newParent = folder.path.includes('/') ? folder.path.substring(0, folder.path.lastIndexOf('/')) : '';
+    this.handleFolderEvent(oldParent === newParent ? 'folder-rename' : 'folder-move', folder, oldPath);
+  }
+
+  /**
+   * Starts tracking a folder operation; the folder event is logged once its per-file events have settled
+   */
+  private handleFolderEvent(eventType: FolderEventType, folder: TFolder, oldPath?: string): void {
+    try {
+      if (this.shouldExcludeFile(folder.path, eventType) || (oldPath && this.shouldExcludeFile(oldPath, eventType))) {
+        return;
+      }
+
+      this.folderOperations.begin(eventType, folder.path, this.countFiles(folder), oldPath);
+    } catch (error) {
+      console.error(`[ObsidianObserver] Error handling ${eventType} event:`, error);
+    }
+  }
+
+  private countFiles(folder: TFolder): number {
+    return folder.children.reduce((count, child) =>
+      count + (child instanceof TFolder ? this.countFiles(child) : child instanceof TFile ? 1 : 0), 0);
+  }
+
+  private async logFolderOperation(operation: FolderOperation): Promise<void> {
+    if (operation.eventType === 'folder-delete') {
+      // Contained files have had their delete events stamped by now
+      this.fileIdentity.forgetFolder(operation.path);
     }
+
+    const eventLog: EventLog = {
+      guid: operation.guid,
+      timestamp: operation.timestamp,
+      eventType: operation.eventType,
+      filePath: operation.path,
+      fileName: operation.path.split('/').pop() || operation.path,
+      vaultName: this.app.vault.getName(),
+      hostname: this.deviceIdentity.getHostname(),
+      metadata: {
+        oldPath: operation.oldPath,
+        newPath: operation.oldPath ? operation.path : undefined,
+        fileCount: operation.fileCount,
+        childGuids: operation.childGuids
+      }
+    };
+
+    await this.logger.logEvent(eventLog);
   }
 
   private async handleAppReady(): Promise<void> {
@@ -411,7 +767,7 @@ export class EventHandlers {
         filePath: '',
         fileName: '',
         vaultName: this.app.vault.getName(),
-        hostname: this.getHostname(),
+        hostname: this.deviceIdentity.getHostname(),
         metadata: {
           lastModified: new Date().toISOString()
         }
@@ -444,7 +800,7 @@ export class EventHandlers {
           filePath: 'test-file.md',
           fileName: 'test-file.md',
           vaultName: this.app.vault.getName(),
-          hostname: this.getHostname(),
+          hostname: this.deviceIdentity.getHostname(),
           metadata: {
             lastModified: new Date().toISOString(),
             fileSize: 1024
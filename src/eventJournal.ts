@@ -0,0 +1,67 @@
+import { App } from 'obsidian';
+import { EventLog } from './types';
+import { EventCipher, SealedLocalStorage } from './encryption';
+
+const JOURNAL_STORAGE_KEY = 'obsidian-observer-journal';
+
+/**
+ * Write-ahead journal for buffered events. Each event is recorded in vault-specific
+ * localStorage before it is buffered and removed once storage has written it, so
+ * events that were never flushed (after a crash or an interrupted quit) can be
+ * replayed at the next startup. While encryption is enabled the journal is stored
+ * encrypted, and events logged while the event log is locked are not journaled.
+ */
+export class EventJournal {
+  private store: SealedLocalStorage<EventLog>;
+  private entries: EventLog[];
+
+  constructor(app: App, cipher?: EventCipher) {
+    this.store = new SealedLocalStorage(app, JOURNAL_STORAGE_KEY, cipher);
+    this.entries = this.store.load();
+  }
+
+  /**
+   * Adds the entries of an encrypted journal once the event log is unlocked
+   */
+  async unseal(): Promise<void> {
+    const known = new Set(this.entries.map(entry => entry.guid));
+    const sealed = (await this.store.unseal()).filter(entry => !known.has(entry.guid));
+    this.entries = sealed.concat(this.entries);
+    this.persist();
+  }
+
+  /**
+   * Events recorded in the journal that storage has not acknowledged yet
+   */
+  pending(): EventLog[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Records an event before it is buffered
+   * @param eventLog The event to record
+   */
+  append(eventLog: EventLog): void {
+    this.entries.push(eventLog);
+    this.persist();
+  }
+
+  /**
+   * Removes events that storage has written
+   * @param guids GUIDs of the written events
+   */
+  acknowledge(guids: Set<string>): void {
+    const remaining = this.entries.filter(entry => !guids.has(entry.guid));
+    if (remaining.length !== this.entries.length) {
+      this.entries = remaining;
+      this.persist();
+    }
+  }
+
+  /**
+   * Stores the journal again, e.g. encrypted once encryption is turned on
+   */
+  persist(): void {
+    this.store.save(this.entries);
+  }
+}
@@ -0,0 +1,287 @@
+import { App, Modal, Notice, Setting, normalizePath } from 'obsidian';
+import { EventLogger } from './logger';
+import { EventFrontmatter, EventType, EVENT_TYPES } from './types';
+import { matchesPathGlob } from './filterRules';
+import { formatLocalDate } from './utils';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export interface ExportOptions {
+  from?: Date;
+  to?: Date;
+  eventTypes: EventType[]; // Empty exports all event types
+  hosts: string[]; // Empty exports all hosts
+  pathPatterns: string[]; // Globs as in the include/exclude rules; empty exports all paths
+  format: ExportFormat;
+  destination: string; // Vault-relative path, or an absolute path on desktop
+}
+
+// Fields every event has, always exported first and in this order
+const CORE_COLUMNS: (keyof EventFrontmatter)[] = [
+  'OOEvent_GUID', 'OOEvent_Timestamp', 'OOEvent_LocalTimestamp', 'OOEvent_Timezone', 'OOEvent_Type',
+  'OOEvent_FilePath', 'OOEvent_FileName', 'OOEvent_VaultName', 'OOEvent_Hostname', 'OOEvent_DeviceID',
+  'OOEvent_LastModified', 'OOEvent_Created', 'OOEvent_PluginVersion'
+];
+
+/**
+ * Selects the events matching the export filters
+ * @param records All stored events
+ * @param options The export options
+ * @returns The matching events
+ */
+export function filterEvents(records: EventFrontmatter[], options: ExportOptions): EventFrontmatter[] {
+  return records.filter(record => {
+    const time = new Date(record.OOEvent_Timestamp).getTime();
+    if (options.from && time < options.from.getTime()) return false;
+    if (options.to && time > options.to.getTime()) return false;
+    if (options.eventTypes.length > 0 && !options.eventTypes.includes(record.OOEvent_Type)) return false;
+    if (options.hosts.length > 0 && !options.hosts.includes(record.OOEvent_Hostname)) return false;
+    if (options.pathPatterns.length > 0) {
+      const paths = [record.OOEvent_FilePath, record.OOEvent_OldPath].filter((path): path is string => !!path);
+      if (!paths.some(path => options.pathPatterns.some(pattern => matchesPathGlob(path, pattern)))) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Works out the export columns: the core fields, then any optional fields the records use
+ */
+function getColumns(records: EventFrontmatter[]): string[] {
+  const columns: string[] = [...CORE_COLUMNS];
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (key.startsWith('OOEvent_') && !columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+  return columns;
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialises events in the chosen format
+ * @param records The events to export
+ * @param format CSV, JSON or NDJSON
+ * @returns The file content
+ */
+export function formatEvents(records: EventFrontmatter[], format: ExportFormat): string {
+  const columns = getColumns(records);
+  const rows = records.map(record => {
+    const row: Record<string, unknown> = {};
+    for (const column of columns) {
+      const value = (record as unknown as Record<string, unknown>)[column];
+      if (value !== undefined && value !== null && value !== '') {
+        row[column] = value;
+      }
+    }
+    return row;
+  });
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(rows, null, 2);
+    case 'ndjson':
+      return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+    case 'csv':
+    default:
+      return [columns.join(','), ...rows.map(row => columns.map(column => escapeCsv(row[column])).join(','))].join('\r\n') + '\r\n';
+  }
+}
+
+function isAbsolutePath(path: string): boolean {
+  return path.startsWith('/') || path.startsWith('\\\\') || /^[a-zA-Z]:[\\/]/.test(path);
+}
+
+/**
+ * Exports stored events to a file in the vault or, on desktop, anywhere on disk
+ */
+export class EventExporter {
+  private app: App;
+  private logger: EventLogger;
+
+  constructor(app: App, logger: EventLogger) {
+    this.app = app;
+    this.logger = logger;
+  }
+
+  getDefaultDestination(format: ExportFormat): string {
+    return `${this.logger.getConfig().eventsFolder}/exports/events-${formatLocalDate(new Date())}.${format}`;
+  }
+
+  /**
+   * Exports the events matching the options
+   * @param options The export options
+   * @returns Number of events exported and the path written
+   */
+  async export(options: ExportOptions): Promise<{ count: number; path: string }> {
+    // Make sure buffered events are included
+    await this.logger.flushBuffer();
+
+    const records = filterEvents(await this.logger.readEvents({ from: options.from, to: options.to }), options);
+    const content = formatEvents(records, options.format);
+    const destination = options.destination.trim() || this.getDefaultDestination(options.format);
+
+    if (isAbsolutePath(destination)) {
+      // Writing outside the vault needs Node's file system, which is desktop only
+      if (typeof require === 'undefined') {
+        throw new Error('Exporting outside the vault is only supported on desktop');
+      }
+      const fs = require('fs');
+      await fs.promises.writeFile(destination, content, 'utf8');
+    } else {
+      const path = normalizePath(destination);
+      const folder = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+      if (folder && !(await this.app.vault.adapter.exists(folder))) {
+        await this.app.vault.createFolder(folder);
+      }
+      await this.app.vault.adapter.write(path, content);
+    }
+
+    console.log(`[ObsidianObserver] Exported ${records.length} events to ${destination}`);
+    return { count: records.length, path: destination };
+  }
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Lets the user choose export filters, format and destination
+ */
+export class ExportModal extends Modal {
+  private exporter: EventExporter;
+  private fromDate = '';
+  private toDate = '';
+  private eventTypes = '';
+  private hosts = '';
+  private pathPatterns = '';
+  private format: ExportFormat = 'csv';
+  private destination = '';
+
+  constructor(app: App, exporter: EventExporter) {
+    super(app);
+    this.exporter = exporter;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Export Events' });
+
+    new Setting(contentEl)
+      .setName('From')
+      .setDesc('First day to export (YYYY-MM-DD). Leave empty for no lower limit.')
+      .addText(text => text
+        .setPlaceholder('2026-01-01')
+        .onChange(value => { this.fromDate = value.trim(); }));
+
+    new Setting(contentEl)
+      .setName('To')
+      .setDesc('Last day to export (YYYY-MM-DD). Leave empty for no upper limit.')
+      .addText(text => text
+        .setPlaceholder(formatLocalDate(new Date()))
+        .onChange(value => { this.toDate = value.trim(); }));
+
+    new Setting(contentEl)
+      .setName('Event Types')
+      .setDesc(`Comma-separated list, e.g. open, save. Leave empty for all. Available: ${EVENT_TYPES.join(', ')}`)
+      .addText(text => text
+        .setPlaceholder('All event types')
+        .onChange(value => { this.eventTypes = value; }));
+
+    new Setting(contentEl)
+      .setName('Hosts')
+      .setDesc('Comma-separated hostnames. Leave empty for all.')
+      .addText(text => text
+        .setPlaceholder('All hosts')
+        .onChange(value => { this.hosts = value; }));
+
+    new Setting(contentEl)
+      .setName('Paths')
+      .setDesc('Comma-separated path globs, e.g. Projects/ or *.md. Leave empty for all.')
+      .addText(text => text
+        .setPlaceholder('All paths')
+        .onChange(value => { this.pathPatterns = value; }));
+
+    let destinationInput: { setPlaceholder: (placeholder: string) => unknown } | null = null;
+    new Setting(contentEl)
+      .setName('Format')
+      .addDropdown(dropdown => dropdown
+        .addOption('csv', 'CSV')
+        .addOption('json', 'JSON')
+        .addOption('ndjson', 'NDJSON')
+        .setValue(this.format)
+        .onChange(value => {
+          this.format = value as ExportFormat;
+          destinationInput?.setPlaceholder(this.exporter.getDefaultDestination(this.format));
+        }));
+
+    new Setting(contentEl)
+      .setName('Destination')
+      .setDesc('A path inside the vault, or an absolute path on desktop.')
+      .addText(text => {
+        destinationInput = text;
+        text
+          .setPlaceholder(this.exporter.getDefaultDestination(this.format))
+          .onChange(value => { this.destination = value; });
+      });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Export')
+        .setCta()
+        .onClick(async () => {
+          const options = this.buildOptions();
+          if (!options) return;
+
+          button.setDisabled(true);
+          try {
+            const result = await this.exporter.export(options);
+            new Notice(`Exported ${result.count} events to ${result.path}`);
+            this.close();
+          } catch (error) {
+            console.error('[ObsidianObserver] Error exporting events:', error);
+            new Notice(`Export failed: ${error instanceof Error ? error.message : error}`);
+            button.setDisabled(false);
+          }
+        }));
+  }
+
+  private buildOptions(): ExportOptions | null {
+    const from = this.fromDate ? new Date(`${this.fromDate}T00:00:00`) : undefined;
+    const to = this.toDate ? new Date(`${this.toDate}T23:59:59.999`) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      new Notice('Dates must use the YYYY-MM-DD format');
+      return null;
+    }
+
+    const eventTypes = splitList(this.eventTypes);
+    const unknownTypes = eventTypes.filter(type => !(EVENT_TYPES as readonly string[]).includes(type));
+    if (unknownTypes.length > 0) {
+      new Notice(`Unknown event types: ${unknownTypes.join(', ')}`);
+      return null;
+    }
+
+    return {
+      from,
+      to,
+      eventTypes: eventTypes as EventType[],
+      hosts: splitList(this.hosts),
+      pathPatterns: splitList(this.pathPatterns),
+      format: this.format,
+      destination: this.destination
+    };
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,130 @@
+import { App } from 'obsidian';
+import { generateBase32Guid } from './utils';
+
+const SAVE_DELAY_MS = 2000;
+
+interface FileIdentityData {
+  version: number;
+  files: Record<string, string>; // File ID by current path
+}
+
+/**
+ * Gives each tracked note a persistent ID that follows it across renames and
+ * moves, so its events can be aggregated under one identity. The registry is a
+ * JSON file in the plugin folder.
+ */
+export class FileIdentityRegistry {
+  private app: App;
+  private registryPath: string;
+  private ids: Record<string, string> = {};
+  private saveTimer: number | null = null;
+
+  constructor(app: App, registryPath: string) {
+    this.app = app;
+    this.registryPath = registryPath;
+  }
+
+  async load(): Promise<void> {
+    try {
+      if (await this.app.vault.adapter.exists(this.registryPath)) {
+        const data = JSON.parse(await this.app.vault.adapter.read(this.registryPath)) as FileIdentityData;
+        this.ids = data && data.files ? data.files : {};
+      }
+      console.log(`[ObsidianObserver] Loaded ${Object.keys(this.ids).length} file IDs from ${this.registryPath}`);
+    } catch (error) {
+      console.error('[ObsidianObserver] Error loading file ID registry:', error);
+    }
+  }
+
+  /**
+   * The ID of the file at a path, assigning one if the file has none yet
+   * @param path The current path of the file
+   */
+  getFileId(path: string): string {
+    return this.ids[path] || this.assignNew(path);
+  }
+
+  /**
+   * Assigns a fresh ID to a path, e.g. for a newly created file that reuses a deleted file's path
+   * @param path The path of the new file
+   */
+  assignNew(path: string): string {
+    const fileId = generateBase32Guid();
+    this.ids[path] = fileId;
+    this.scheduleSave();
+    return fileId;
+  }
+
+  /**
+   * Moves a file's ID to its new path
+   */
+  rename(oldPath: string, newPath: string): void {
+    const fileId = this.ids[oldPath];
+    if (!fileId) return;
+
+    delete this.ids[oldPath];
+    this.ids[newPath] = fileId;
+    this.scheduleSave();
+  }
+
+  /**
+   * Moves the IDs of every file inside a renamed or moved folder
+   */
+  renameFolder(oldFolder: string, newFolder: string): void {
+    let changed = false;
+    for (const path of Object.keys(this.ids)) {
+      if (path.startsWith(`${oldFolder}/`)) {
+        this.ids[`${newFolder}/${path.slice(oldFolder.length + 1)}`] = this.ids[path];
+        delete this.ids[path];
+        changed = true;
+      }
+    }
+    if (changed) this.scheduleSave();
+  }
+
+  /**
+   * Drops the IDs of every file inside a deleted folder
+   */
+  forgetFolder(folder: string): void {
+    const paths = Object.keys(this.ids).filter(path => path.startsWith(`${folder}/`));
+    paths.forEach(path => delete this.ids[path]);
+    if (paths.length > 0) this.scheduleSave();
+  }
+
+  /**
+   * Drops the ID of a deleted file
+   */
+  forget(path: string): void {
+    if (!(path in this.ids)) return;
+
+    delete this.ids[path];
+    this.scheduleSave();
+  }
+
+  /**
+   * Writes the registry now, e.g. before the plugin unloads
+   */
+  async save(): Promise<void> {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    try {
+      const data: FileIdentityData = { version: 1, files: this.ids };
+      await this.app.vault.adapter.write(this.registryPath, JSON.stringify(data));
+    } catch (error) {
+      console.error('[ObsidianObserver] Error saving file ID registry:', error);
+    }
+  }
+
+  // Renames and creates often come in bursts, e.g. when a folder is moved
+  private scheduleSave(): void {
+    if (this.saveTimer !== null) return;
+
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+}
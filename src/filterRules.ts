@@ -0,0 +1,180 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { EventType, FilterRule, FilterRuleTarget, LoggerConfig } from './types';
+
+/**
+ * The outcome of evaluating a path against the filter rules
+ */
+export interface FilterResult {
+  excluded: boolean;
+  reason: string; // Human readable explanation, shown in the settings preview
+  ruleIndex?: number; // Index of the matching rule in the configured list
+}
+
+export const DEFAULT_FILTER_RULES: FilterRule[] = [
+  { action: 'exclude', target: 'path', pattern: '.*', eventTypes: [] },
+  { action: 'exclude', target: 'path', pattern: '**/.cache/', eventTypes: [] },
+  { action: 'exclude', target: 'path', pattern: '*.tmp', eventTypes: [] },
+  { action: 'exclude', target: 'path', pattern: '*.temp', eventTypes: [] },
+  { action: 'exclude', target: 'property', pattern: 'observer: false', eventTypes: [] }
+];
+
+/**
+ * Converts a glob pattern to a regular expression.
+ * `*` matches within a path segment, `**` matches across segments, `?` matches one
+ * character, and a trailing `/` matches everything inside a folder.
+ * @param glob The glob pattern
+ * @returns A regular expression matching whole paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.endsWith('/') ? `${glob}**` : glob;
+  pattern = pattern.replace(/^\/+/, '');
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches zero folders
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks a path against a glob; globs without a folder separator match the file name
+ */
+export function matchesPathGlob(filePath: string, glob: string): boolean {
+  const isNamePattern = !glob.includes('/');
+  const subject = isNamePattern ? filePath.split('/').pop() || '' : filePath;
+  return globToRegExp(glob).test(subject);
+}
+
+/**
+ * Decides which files are recorded, based on built-in exclusions and the user's
+ * include/exclude rules. Rules are checked in order and the first match wins. When
+ * no rule matches, the file is recorded unless include rules exist for the event type.
+ */
+export class FileFilter {
+  private app: App;
+  private config: LoggerConfig;
+
+  constructor(app: App, config: LoggerConfig) {
+    this.app = app;
+    this.config = config;
+  }
+
+  updateConfig(config: LoggerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Evaluates a path against the filter rules
+   * @param filePath The path of the file to check
+   * @param eventType The event being logged; rules limited to other event types are skipped
+   * @returns Whether the file is excluded and why
+   */
+  evaluate(filePath: string, eventType?: EventType): FilterResult {
+    // Skip ALL changes to the configured events folder - this prevents indexing loops
+    const eventsFolder = this.config.eventsFolder.replace(/\/+$/, '');
+    if (filePath === eventsFolder || filePath.startsWith(`${eventsFolder}/`)) {
+      return { excluded: true, reason: 'Built-in: ObsidianObserver events folder' };
+    }
+
+    // Obsidian internal files and directories
+    if (filePath.startsWith('.obsidian/')) {
+      return { excluded: true, reason: 'Built-in: Obsidian configuration folder' };
+    }
+
+    const rules = this.config.filterRules;
+    for (let ruleIndex = 0; ruleIndex < rules.length; ruleIndex++) {
+      const rule = rules[ruleIndex];
+      if (!this.appliesTo(rule, eventType)) continue;
+
+      if (this.matches(rule, filePath)) {
+        return {
+          excluded: rule.action === 'exclude',
+          reason: `Rule ${ruleIndex + 1}: ${rule.action} ${rule.target} "${rule.pattern}"`,
+          ruleIndex
+        };
+      }
+    }
+
+    // An include list means only matching files are recorded
+    if (rules.some(rule => rule.action === 'include' && this.appliesTo(rule, eventType))) {
+      return { excluded: true, reason: 'Not matched by any include rule' };
+    }
+
+    return { excluded: false, reason: 'No rule matched' };
+  }
+
+  private appliesTo(rule: FilterRule, eventType?: EventType): boolean {
+    if (!rule.pattern.trim()) return false;
+    return !eventType || rule.eventTypes.length === 0 || rule.eventTypes.includes(eventType);
+  }
+
+  /**
+   * Checks whether a rule's pattern matches a file, regardless of the rule's action
+   * @param rule The rule target and pattern, e.g. of a filter or privacy rule
+   * @param filePath The path of the file to check
+   */
+  matches(rule: { target: FilterRuleTarget; pattern: string }, filePath: string): boolean {
+    switch (rule.target) {
+      case 'path':
+        return matchesPathGlob(filePath, rule.pattern.trim());
+      case 'tag':
+        return this.matchesTag(filePath, rule.pattern.trim());
+      case 'property':
+        return this.matchesProperty(filePath, rule.pattern.trim());
+      default:
+        return false;
+    }
+  }
+
+  private matchesTag(filePath: string, pattern: string): boolean {
+    const file = this.app.vault.getAbstractFileByPath(filePath);
+    if (!(file instanceof TFile)) return false;
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    const tags = cache ? getAllTags(cache) || [] : [];
+    const wanted = pattern.replace(/^#/, '').toLowerCase();
+    const tagRegExp = globToRegExp(wanted);
+
+    // A tag also matches its nested tags, so "project" matches "project/alpha"
+    return tags.some(tag => {
+      const name = tag.replace(/^#/, '').toLowerCase();
+      return tagRegExp.test(name) || name.startsWith(`${wanted}/`);
+    });
+  }
+
+  private matchesProperty(filePath: string, pattern: string): boolean {
+    const file = this.app.vault.getAbstractFileByPath(filePath);
+    if (!(file instanceof TFile)) return false;
+
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter) return false;
+
+    // "key: value" compares the value, a bare "key" only checks that the property exists
+    const separator = pattern.search(/[:=]/);
+    const key = (separator >= 0 ? pattern.slice(0, separator) : pattern).trim();
+    if (!(key in frontmatter)) return false;
+    if (separator < 0) return true;
+
+    const expected = pattern.slice(separator + 1).trim().toLowerCase();
+    const actual = frontmatter[key];
+    const values = Array.isArray(actual) ? actual : [actual];
+    return values.some(value => String(value).toLowerCase() === expected);
+  }
+}
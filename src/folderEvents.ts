@@ -0,0 +1,151 @@
+import { EventType } from './types';
+import { generateBase32Guid } from './utils';
+
+// Child events that arrive this close to a folder operation are attributed to it
+const SETTLE_MS = 1500;
+
+export type FolderEventType = Extract<EventType, 'folder-create' | 'folder-rename' | 'folder-move' | 'folder-delete'>;
+
+/**
+ * A completed folder operation and the per-file events it caused
+ */
+export interface FolderOperation {
+  guid: string;
+  eventType: FolderEventType;
+  path: string; // Path of the folder after the operation (before it, for deletes)
+  oldPath?: string; // Path before a rename or move
+  timestamp: string;
+  fileCount: number; // Files inside the folder when the operation was seen
+  childGuids: string[]; // GUIDs of the per-file events the operation caused
+}
+
+interface PendingOperation extends FolderOperation {
+  timer: number;
+}
+
+interface RecentChild {
+  guid: string;
+  path: string;
+  oldPath?: string;
+  time: number;
+}
+
+function isInside(path: string | undefined, folder: string | undefined): boolean {
+  return !!path && !!folder && path.startsWith(`${folder}/`);
+}
+
+/**
+ * Groups the per-file events caused by a folder operation under one folder event.
+ * Obsidian reports a folder rename, move or delete as well as one event per
+ * contained file, in either order, so the folder event is held back until the
+ * child events have settled and then logged with links to them.
+ */
+export class FolderOperationTracker {
+  private pending = new Map<string, PendingOperation>();
+  private recentChildren: RecentChild[] = [];
+  private onOperation: (operation: FolderOperation) => Promise<void>;
+
+  constructor(onOperation: (operation: FolderOperation) => Promise<void>) {
+    this.onOperation = onOperation;
+  }
+
+  /**
+   * Starts tracking a folder operation
+   * @param eventType The kind of operation
+   * @param path The folder path (the new path for renames and moves)
+   * @param fileCount Files inside the folder
+   * @param oldPath The previous path, for renames and moves
+   */
+  begin(eventType: FolderEventType, path: string, fileCount: number, oldPath?: string): void {
+    const now = Date.now();
+    const operation: PendingOperation = {
+      guid: generateBase32Guid(),
+      eventType,
+      path,
+      oldPath,
+      timestamp: new Date(now).toISOString(),
+      fileCount,
+      childGuids: [],
+      timer: 0
+    };
+
+    // Adopt child events Obsidian reported before the folder event
+    this.pruneRecentChildren(now);
+    for (const child of this.recentChildren) {
+      if (this.covers(operation, child.path, child.oldPath)) {
+        operation.childGuids.push(child.guid);
+      }
+    }
+
+    this.pending.set(operation.guid, operation);
+    this.scheduleFinish(operation);
+  }
+
+  /**
+   * Records a per-file event and links it to the folder operation that caused it
+   * @param guid GUID of the file event
+   * @param path Path of the file
+   * @param oldPath Previous path, for renames
+   * @returns GUID of the folder event, if the file event belongs to one that is in progress
+   */
+  linkChild(guid: string, path: string, oldPath?: string): string | undefined {
+    for (const operation of this.pending.values()) {
+      if (this.covers(operation, path, oldPath)) {
+        operation.childGuids.push(guid);
+        this.scheduleFinish(operation);
+        return operation.guid;
+      }
+    }
+
+    // Pruned here too, since most file events are not part of any folder operation
+    const now = Date.now();
+    this.pruneRecentChildren(now);
+    this.recentChildren.push({ guid, path, oldPath, time: now });
+    return undefined;
+  }
+
+  /**
+   * Logs every folder operation that is still waiting for child events
+   */
+  async flushAll(): Promise<void> {
+    for (const guid of Array.from(this.pending.keys())) {
+      await this.finish(guid);
+    }
+  }
+
+  private pruneRecentChildren(now: number): void {
+    this.recentChildren = this.recentChildren.filter(child => now - child.time <= SETTLE_MS);
+  }
+
+  private covers(operation: FolderOperation, path: string, oldPath?: string): boolean {
+    if (operation.oldPath) {
+      return isInside(oldPath, operation.oldPath) || isInside(path, operation.path);
+    }
+    return isInside(path, operation.path);
+  }
+
+  private scheduleFinish(operation: PendingOperation): void {
+    window.clearTimeout(operation.timer);
+    operation.timer = window.setTimeout(() => {
+      this.finish(operation.guid);
+    }, SETTLE_MS);
+  }
+
+  private async finish(guid: string): Promise<void> {
+    const operation = this.pending.get(guid);
+    if (!operation) return;
+
+    window.clearTimeout(operation.timer);
+    this.pending.delete(guid);
+
+    const { timer, ...completed } = operation;
+    // Files may already be gone by the time a delete is reported, so count linked events too
+    completed.fileCount = Math.max(completed.fileCount, completed.childGuids.length);
+
+    try {
+      await this.onOperation(completed);
+    } catch (error) {
+      console.error('[ObsidianObserver] Error logging folder event:', error);
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { App, ItemView, WorkspaceLeaf, debounce, parseYaml } from 'obsidian';
+import { EventLogger } from './logger';
+import { EventFrontmatter } from './types';
+import { formatLocalDate } from './utils';
+
+export const HEATMAP_VIEW_TYPE = 'obsidian-observer-heatmap';
+export const HEATMAP_CODE_BLOCK = 'obsidian-observer-heatmap';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CELL_SIZE = 11;
+const CELL_GAP = 2;
+
+export type HeatmapMetric = 'events' | 'minutes'; // Events per day, or active editing minutes per day
+
+export interface HeatmapOptions {
+  metric: HeatmapMetric;
+  days: number; // How far back the heatmap reaches
+}
+
+export const DEFAULT_HEATMAP_OPTIONS: HeatmapOptions = { metric: 'events', days: 365 };
+
+/**
+ * Minutes of editing an event stands for: its measured active time or, for events
+ * recorded without active time tracking, the length of an edit burst or one minute per save
+ */
+export function getEditingMinutes(record: EventFrontmatter): number {
+  if (record.OOEvent_ActiveSeconds !== undefined) {
+    return Number(record.OOEvent_ActiveSeconds) / 60;
+  }
+  if (record.OOEvent_Type === 'edit-burst' && record.OOEvent_BurstStart && record.OOEvent_BurstEnd) {
+    const duration = new Date(record.OOEvent_BurstEnd).getTime() - new Date(record.OOEvent_BurstStart).getTime();
+    return Math.max(1, duration / 60000);
+  }
+  return record.OOEvent_Type === 'save' ? 1 : 0;
+}
+
+/**
+ * Totals events, or editing minutes, per local day
+ * @param events The events to count
+ * @param metric What to total
+ * @returns Totals by YYYY-MM-DD date
+ */
+export function buildDailyActivity(events: EventFrontmatter[], metric: HeatmapMetric): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const record of events) {
+    const value = metric === 'minutes' ? getEditingMinutes(record) : 1;
+    if (value <= 0) continue;
+
+    const date = formatLocalDate(new Date(record.OOEvent_Timestamp));
+    totals.set(date, (totals.get(date) || 0) + value);
+  }
+  return totals;
+}
+
+/**
+ * Reads heatmap options from the body of a code block, e.g. "metric: minutes" and "days: 180"
+ */
+export function parseHeatmapOptions(source: string): HeatmapOptions {
+  const options = { ...DEFAULT_HEATMAP_OPTIONS };
+  try {
+    const parsed = source.trim() ? parseYaml(source) : null;
+    if (parsed && typeof parsed === 'object') {
+      if (parsed.metric === 'minutes' || parsed.metric === 'events') {
+        options.metric = parsed.metric;
+      }
+      const days = Number(parsed.days);
+      if (days > 0) {
+        options.days = Math.floor(days);
+      }
+    }
+  } catch (error) {
+    console.warn('[ObsidianObserver] Invalid heatmap options, using defaults:', error);
+  }
+  return options;
+}
+
+function formatValue(value: number, metric: HeatmapMetric): string {
+  return metric === 'minutes' ? `${Math.round(value)} min` : `${value} event${value === 1 ? '' : 's'}`;
+}
+
+/**
+ * Renders a GitHub-style calendar heatmap, one column per week, with a list of
+ * the day's events below it when a day is clicked
+ * @param container Element to render into
+ * @param app The Obsidian app instance, used to open notes from the day list
+ * @param events The events to show
+ * @param options Metric and number of days
+ */
+export function renderActivityHeatmap(container: HTMLElement, app: App, events: EventFrontmatter[], options: HeatmapOptions): void {
+  container.empty();
+  const totals = buildDailyActivity(events, options.metric);
+  const max = Math.max(0, ...Array.from(totals.values()));
+
+  // Start on the Sunday on or before the first day so every column is a full week
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const start = new Date(today.getTime() - (options.days - 1) * DAY_MS);
+  start.setDate(start.getDate() - start.getDay());
+
+  const scroller = container.createDiv();
+  scroller.style.overflowX = 'auto';
+  const grid = scroller.createDiv();
+  grid.style.display = 'grid';
+  grid.style.gridTemplateRows = `repeat(7, ${CELL_SIZE}px)`;
+  grid.style.gridAutoFlow = 'column';
+  grid.style.gridAutoColumns = `${CELL_SIZE}px`;
+  grid.style.gap = `${CELL_GAP}px`;
+  grid.style.padding = 'var(--size-4-2) 0';
+
+  const details = container.createDiv();
+  let selectedCell: HTMLElement | null = null;
+
+  for (let day = new Date(start); day <= today; day.setDate(day.getDate() + 1)) {
+    const date = formatLocalDate(day);
+    const value = totals.get(date) || 0;
+    // Four intensity levels relative to the busiest day
+    const level = value === 0 || max === 0 ? 0 : Math.ceil((value / max) * 4);
+
+    const cell = grid.createDiv();
+    cell.style.width = `${CELL_SIZE}px`;
+    cell.style.height = `${CELL_SIZE}px`;
+    cell.style.borderRadius = '2px';
+    cell.style.cursor = 'pointer';
+    cell.style.backgroundColor = level === 0 ? 'var(--background-modifier-border)' : 'var(--interactive-accent)';
+    cell.style.opacity = level === 0 ? '1' : String(0.25 + level * 0.1875);
+    cell.setAttribute('aria-label', `${date}: ${formatValue(value, options.metric)}`);
+
+    cell.addEventListener('click', () => {
+      if (selectedCell) selectedCell.style.outline = '';
+      cell.style.outline = '1px solid var(--text-normal)';
+      selectedCell = cell;
+      renderDayEvents(details, app, date, events, totals.get(date) || 0, options.metric);
+    });
+  }
+
+  const total = Array.from(totals.values()).reduce((sum, value) => sum + value, 0);
+  container.insertBefore(
+    createEl('div', { text: `${formatValue(total, options.metric)} in the last ${options.days} days`, cls: 'setting-item-description' }),
+    scroller
+  );
+}
+
+function renderDayEvents(container: HTMLElement, app: App, date: string, events: EventFrontmatter[], value: number, metric: HeatmapMetric) {
+  container.empty();
+  container.createEl('h6', { text: `${date} (${formatValue(value, metric)})` });
+
+  const dayEvents = events.filter(record => formatLocalDate(new Date(record.OOEvent_Timestamp)) === date);
+  if (dayEvents.length === 0) {
+    container.createEl('p', { text: 'No events on this day.', cls: 'pane-empty' });
+    return;
+  }
+
+  const list = container.createEl('ul');
+  for (const record of dayEvents) {
+    const item = list.createEl('li');
+    item.createSpan({ text: `${new Date(record.OOEvent_Timestamp).toLocaleTimeString()} ` });
+    item.createEl('strong', { text: record.OOEvent_Type });
+
+    const filePath = record.OOEvent_NewPath || record.OOEvent_FilePath;
+    if (filePath) {
+      item.appendText(' ');
+      const link = item.createEl('a', { text: record.OOEvent_FileName || filePath, cls: 'internal-link' });
+      link.addEventListener('click', async (event) => {
+        event.preventDefault();
+        await app.workspace.openLinkText(filePath, '', event.ctrlKey || event.metaKey);
+      });
+    }
+  }
+}
+
+/**
+ * Reads the events a heatmap covers
+ * @param logger The event logger
+ * @param days How far back to read
+ */
+export async function loadHeatmapEvents(logger: EventLogger, days: number): Promise<EventFrontmatter[]> {
+  const from = new Date(Date.now() - days * DAY_MS);
+  from.setHours(0, 0, 0, 0);
+  from.setDate(from.getDate() - from.getDay());
+
+  return logger.readEventsWithBuffered({ from });
+}
+
+/**
+ * Workspace view showing the activity heatmap for the last year. Events are read
+ * once when the view opens; events logged afterwards are added to that copy, so
+ * new activity never re-reads the event log.
+ */
+export class ActivityHeatmapView extends ItemView {
+  private logger: EventLogger;
+  private options: HeatmapOptions = { ...DEFAULT_HEATMAP_OPTIONS };
+  private heatmapEl: HTMLElement | null = null;
+  private events: EventFrontmatter[] | null = null; // Null until the first read finishes
+  private reading = false;
+  private arrivedDuringRead: EventFrontmatter[] = []; // Logged while a read was in progress, merged once it finishes
+  private requestRender = debounce(() => this.render(), 2000, true);
+
+  constructor(leaf: WorkspaceLeaf, logger: EventLogger) {
+    super(leaf);
+    this.logger = logger;
+  }
+
+  getViewType(): string {
+    return HEATMAP_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Activity Heatmap';
+  }
+
+  getIcon(): string {
+    return 'calendar-days';
+  }
+
+  async onOpen() {
+    const container = this.contentEl;
+    container.empty();
+    container.createEl('h4', { text: 'Activity Heatmap' });
+
+    const metricSelect = container.createEl('select', { cls: 'dropdown' });
+    metricSelect.createEl('option', { value: 'events', text: 'Events per day' });
+    metricSelect.createEl('option', { value: 'minutes', text: 'Editing minutes per day' });
+    metricSelect.value = this.options.metric;
+    metricSelect.addEventListener('change', () => {
+      // Both metrics are totalled from the same events, so no read is needed
+      this.options.metric = metricSelect.value as HeatmapMetric;
+      this.render();
+    });
+
+    this.heatmapEl = container.createDiv();
+
+    // Keep the heatmap current as new events are logged
+    this.register(this.logger.onEvent(record => this.addEvent(record)));
+
+    await this.refresh();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Reads the events for the current range from the event log and renders them
+   */
+  private async refresh() {
+    if (!this.heatmapEl) return;
+
+    this.events = null;
+    this.arrivedDuringRead = [];
+    this.reading = true;
+    try {
+      const events = await loadHeatmapEvents(this.logger, this.options.days);
+      // The read may or may not include events logged while it ran, depending on when it took its buffer snapshot
+      const known = new Set(events.map(record => record.OOEvent_GUID));
+      this.events = events.concat(this.arrivedDuringRead.filter(record => !known.has(record.OOEvent_GUID)));
+      this.render();
+    } catch (error) {
+      console.error('[ObsidianObserver] Error loading activity heatmap events:', error);
+    } finally {
+      this.reading = false;
+      this.arrivedDuringRead = [];
+    }
+  }
+
+  private addEvent(record: EventFrontmatter) {
+    if (this.reading) {
+      this.arrivedDuringRead.push(record);
+      return;
+    }
+    if (!this.events) return;
+
+    this.events.push(record);
+    this.requestRender();
+  }
+
+  private render() {
+    if (!this.heatmapEl || !this.events) return;
+
+    try {
+      renderActivityHeatmap(this.heatmapEl, this.app, this.events, this.options);
+    } catch (error) {
+      console.error('[ObsidianObserver] Error rendering activity heatmap:', error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Links added to and removed from a note's outgoing links
+ */
+export interface LinkDiff {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Remembers the resolved outgoing links of every note so changes to a note's links
+ * can be reported once the metadata cache has resolved them after a save
+ */
+export class LinkTracker {
+  private snapshots = new Map<string, Set<string>>();
+
+  /**
+   * Stores a note's current outgoing links as its baseline
+   * @param path The source note path
+   * @param targets Paths of the notes it links to
+   */
+  remember(path: string, targets: string[]): void {
+    this.snapshots.set(path, new Set(targets));
+  }
+
+  /**
+   * Compares a note's outgoing links against the last known state and makes them the new baseline
+   * @param path The source note path
+   * @param targets Paths of the notes it now links to
+   * @returns The links added and removed, or null when there is no baseline or nothing changed
+   */
+  update(path: string, targets: string[]): LinkDiff | null {
+    const previous = this.snapshots.get(path);
+    const current = new Set(targets);
+    this.snapshots.set(path, current);
+    if (!previous) return null;
+
+    const diff: LinkDiff = {
+      added: Array.from(current).filter(target => !previous.has(target)),
+      removed: Array.from(previous).filter(target => !current.has(target))
+    };
+    return diff.added.length > 0 || diff.removed.length > 0 ? diff : null;
+  }
+
+  /**
+   * Follows a renamed note, both as a link source and as a link target, so
+   * Obsidian updating links after a rename is not reported as a change
+   */
+  rename(oldPath: string, newPath: string): void {
+    const snapshot = this.snapshots.get(oldPath);
+    if (snapshot) {
+      this.snapshots.delete(oldPath);
+      this.snapshots.set(newPath, snapshot);
+    }
+
+    for (const targets of this.snapshots.values()) {
+      if (targets.delete(oldPath)) {
+        targets.add(newPath);
+      }
+    }
+  }
+
+  forget(path: string): void {
+    this.snapshots.delete(path);
+  }
+}
@@ -1,117 +1,74 @@
 import { App, TFile } from 'obsidian';
-import { EventLog, EventFrontmatter, LoggerConfig } from './types';
+import { EventLog, EventFrontmatter, LoggerConfig, MetadataDiff, EVENT_SCHEMA_VERSION } from './types';
+import { EventStorage, EventDateRange, PartialWriteError, createEventStorage } from './storage';
+import { SessionTracker } from './session';
+import { EventJournal } from './eventJournal';
+import { DeviceIdentity } from './deviceIdentity';
+import { FileIdentityRegistry } from './fileIdentity';
+import { PrivacyFilter } from './privacy';
+import { FileFilter } from './filterRules';
+import { EventCipher } from './encryption';
+import { WebhookSink } from './webhookSink';
+import { RollupStore, buildRollups } from './rollups';
+import { formatLocalDate, toLocalTimestamp } from './utils';
 
 export class EventLogger {
   private app: App;
   private config: LoggerConfig;
   private logBuffer: EventLog[] = [];
-  private maxBufferSize = 3; // Reduced from 10 to 3 for more frequent writes
   private pluginVersion: string;
-
-  constructor(app: App, config: LoggerConfig, pluginVersion: string = 'unknown') {
+  private storage: EventStorage;
+  private sessionTracker?: SessionTracker;
+  private deviceIdentity?: DeviceIdentity;
+  private fileIdentity?: FileIdentityRegistry;
+  private journal: EventJournal; // Write-ahead journal so buffered events survive a crash
+  private flushTimer: number | null = null;
+  private storageQueue: Promise<unknown> = Promise.resolve(); // Storage writes run one at a time, in the order they were requested
+  private listeners: Set<(record: EventFrontmatter) => void> = new Set(); // Live views such as the activity timeline
+  private privacy: PrivacyFilter; // Redacts paths according to the privacy rules
+  private fileFilter: FileFilter; // Filter rules for events that did not come through the event handlers
+  private rollups: RollupStore;
+  private aggregateEvents: EventFrontmatter[] = []; // Aggregate-only events waiting to be counted in the daily roll-ups
+  private cipher?: EventCipher; // Encrypts stored events while encryption is enabled
+  private webhook: WebhookSink; // Forwards written events to the configured HTTP endpoint
+
+  constructor(app: App, config: LoggerConfig, pluginVersion: string = 'unknown', sessionTracker?: SessionTracker, deviceIdentity?: DeviceIdentity, fileIdentity?: FileIdentityRegistry, cipher?: EventCipher) {
     this.app = app;
     this.config = config;
     this.pluginVersion = pluginVersion;
+    this.cipher = cipher;
+    this.storage = createEventStorage(app, config, cipher);
+    this.sessionTracker = sessionTracker;
+    this.deviceIdentity = deviceIdentity;
+    this.fileIdentity = fileIdentity;
+    this.journal = new EventJournal(app, cipher);
+    this.webhook = new WebhookSink(app, config.webhook, cipher);
+    this.privacy = new PrivacyFilter(app, config);
+    this.fileFilter = new FileFilter(app, config);
+    this.rollups = new RollupStore(app, () => this.config.eventsFolder, () => this.isEncrypted());
   }
 
   private getPluginVersion(): string {
     return this.pluginVersion;
   }
 
-  private getHostname(): string {
-    // Create a meaningful machine identifier from available Obsidian context
-    try {
-      // Method 1: Try to use Node.js os module (most reliable - uses uv_os_gethostname)
-      if (typeof require !== 'undefined') {
-        try {
-          const os = require('os');
-          if (os && typeof os.hostname === 'function') {
-            const hostname = os.hostname();
-            console.log('[ObsidianObserver] os.hostname() result:', hostname);
-            
-            // Check if we got a meaningful hostname (not localhost or empty)
-            if (hostname && 
-                hostname.trim() && 
-                hostname !== 'localhost' && 
-                hostname !== '127.0.0.1' &&
-                hostname !== '::1') {
-              return hostname;
-            }
-          }
-        } catch (osError) {
-          console.log('[ObsidianObserver] os module not available or error:', osError);
-        }
-      }
-      
-      // Method 2: Try to get from environment variables (fallback)
-      if (typeof process !== 'undefined' && process.env) {
-        // macOS and Linux
-        if (process.env.HOSTNAME && process.env.HOSTNAME !== 'localhost') {
-          return process.env.HOSTNAME;
-        }
-        
-        // Windows
-        if (process.env.COMPUTERNAME && process.env.COMPUTERNAME !== 'localhost') {
-          return process.env.COMPUTERNAME;
-        }
-        
-        // Alternative Windows environment variable
-        if (process.env.USERDOMAIN && process.env.USERDOMAIN !== 'localhost') {
-          return process.env.USERDOMAIN;
-        }
-        
-        // Try USER environment variable
-        if (process.env.USER && process.env.USER !== 'localhost') {
-          return process.env.USER;
-        }
-      }
-      
-      // Method 3: Create a meaningful identifier from Obsidian context
-      let machineId = 'obsidian';
-      
-      // Try to get from vault name
-      if (this.app && this.app.vault) {
-        try {
-          const vaultName = this.app.vault.getName();
-          if (vaultName && vaultName.trim() && vaultName !== 'vault') {
-            // Clean the vault name and use it as machine identifier
-            const cleanName = vaultName.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
-            if (cleanName.length > 0) {
-              machineId = cleanName;
-            }
-          }
-        } catch (vaultError) {
-          console.log('[ObsidianObserver] Could not get vault name:', vaultError);
-        }
-      }
-      
-      // Method 4: Create a unique machine identifier based on available info
-      let identifier = machineId;
-      
-      // Add OS information from navigator
-      if (typeof navigator !== 'undefined' && navigator.platform) {
-        if (navigator.platform.includes('Mac')) {
-          identifier += '-mac';
-        } else if (navigator.platform.includes('Win')) {
-          identifier += '-win';
-        } else if (navigator.platform.includes('Linux')) {
-          identifier += '-linux';
-        }
-      }
-      
-      // Add a unique session identifier
-      const sessionId = Math.random().toString(36).substring(2, 6);
-      const finalId = `${identifier}-${sessionId}`;
-      
-      console.log('[ObsidianObserver] Generated machine identifier:', finalId);
-      return finalId;
-      
-    } catch (error) {
-      console.warn('[ObsidianObserver] Could not determine hostname:', error);
-      // Generate a unique fallback identifier
-      const fallbackId = Math.random().toString(36).substring(2, 8);
-      return `fallback-${fallbackId}`;
-    }
+  /**
+   * Registers a listener called with every event as it is logged, before it is flushed
+   * @param listener Receives the event record
+   * @returns A function that removes the listener
+   */
+  onEvent(listener: (record: EventFrontmatter) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Events that have been logged but not yet written to storage
+   */
+  getBufferedEvents(): EventFrontmatter[] {
+    return this.logBuffer.map(eventLog => this.toEventFrontmatter(eventLog));
   }
 
   getConfig(): LoggerConfig {
@@ -120,6 +77,10 @@ export class EventLogger {
 
   updateConfig(newConfig: LoggerConfig) {
     this.config = newConfig;
+    this.storage = createEventStorage(this.app, newConfig, this.cipher);
+    this.privacy.updateConfig(newConfig);
+    this.fileFilter.updateConfig(newConfig);
+    this.webhook.updateConfig(newConfig.webhook);
     console.log('[ObsidianObserver] Logger configuration updated:', newConfig);
   }
 
@@ -155,12 +116,46 @@ export class EventLogger {
 
   async logEvent(eventLog: EventLog): Promise<void> {
     try {
+      // Stamp the event with the current session and count it against that session
+      if (this.sessionTracker) {
+        if (!eventLog.sessionId) {
+          eventLog.sessionId = this.sessionTracker.getSessionId();
+        }
+        this.sessionTracker.recordEvent(eventLog.timestamp);
+      }
+
+      // Stamp the event with the persistent ID of this device
+      if (this.deviceIdentity && !eventLog.deviceId) {
+        eventLog.deviceId = this.deviceIdentity.getDeviceId();
+      }
+
+      // Stamp file events with the file's persistent ID, so renamed notes keep one identity
+      if (this.fileIdentity && !eventLog.fileId && eventLog.filePath && !eventLog.eventType.startsWith('folder-')) {
+        eventLog.fileId = this.fileIdentity.getFileId(eventLog.filePath);
+      }
+
+      // Apply the privacy rules before the event is journaled, buffered or seen by listeners
+      const privacyLevel = this.privacy.getEventLevel(eventLog);
+      if (privacyLevel === 'aggregate') {
+        this.recordAggregate(eventLog);
+        return;
+      }
+      if (privacyLevel !== 'full') {
+        eventLog = await this.privacy.redact(eventLog, privacyLevel);
+      }
+
+      // Record the event in the journal before buffering it
+      this.journal.append(eventLog);
+
       // Add to buffer
       this.logBuffer.push(eventLog);
+      this.notifyListeners(eventLog);
 
-      // Flush buffer if it's full
-      if (this.logBuffer.length >= this.maxBufferSize) {
+      // Flush buffer if it's full, otherwise make sure it is flushed within the interval
+      if (this.logBuffer.length >= this.config.maxBufferSize) {
         await this.flushBuffer();
+      } else {
+        this.scheduleFlush();
       }
 
       // Console output if enabled
@@ -172,126 +167,361 @@ export class EventLogger {
     }
   }
 
-  async flushBuffer(): Promise<void> {
-    if (this.logBuffer.length === 0) return;
+  /**
+   * Counts an event in the daily roll-ups instead of storing it, for files under an aggregate-only privacy rule
+   */
+  private recordAggregate(eventLog: EventLog): void {
+    this.aggregateEvents.push(this.toEventFrontmatter({ ...eventLog, filePath: '', fileName: '', fileId: undefined, metadata: undefined }));
+    this.scheduleFlush();
+  }
 
-    try {
-      // Create individual note files for each event
-      for (const eventLog of this.logBuffer) {
-        await this.createEventNote(eventLog);
+  private async flushAggregates(): Promise<void> {
+    if (this.aggregateEvents.length === 0) return;
+
+    const batch = this.aggregateEvents;
+    this.aggregateEvents = [];
+
+    for (const rollup of buildRollups(batch).values()) {
+      try {
+        await this.rollups.write(rollup);
+      } catch (error) {
+        // Count the day's events again with the next flush
+        const retry = batch.filter(record => formatLocalDate(new Date(record.OOEvent_Timestamp)) === rollup.date);
+        this.aggregateEvents = retry.concat(this.aggregateEvents);
+        console.error('[ObsidianObserver] Error counting aggregate-only events:', error);
       }
-      
-      console.log(`[ObsidianObserver] Buffer flushed: ${this.logBuffer.length} event notes created`);
+    }
+  }
+
+  private notifyListeners(eventLog: EventLog): void {
+    if (this.listeners.size === 0) return;
+
+    const record = this.toEventFrontmatter(eventLog);
+    for (const listener of this.listeners) {
+      try {
+        listener(record);
+      } catch (error) {
+        console.error('[ObsidianObserver] Error in event listener:', error);
+      }
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer !== null || this.config.flushIntervalSeconds <= 0) return;
+
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+      this.flushBuffer();
+    }, this.config.flushIntervalSeconds * 1000);
+  }
+
+  async flushBuffer(): Promise<void> {
+    if (this.flushTimer !== null) {
+      window.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await this.enqueueStorageTask(async () => {
+      await this.flushAggregates();
+
+      if (this.logBuffer.length === 0) return;
+
+      // Events stay buffered and journaled until the encrypted event log is unlocked
+      if (this.isLocked()) return;
+
+      // Take the batch so events logged during the write stay in the buffer
+      const batch = this.logBuffer;
       this.logBuffer = [];
+
+      try {
+        // Hand the buffered events to the active storage backend
+        const records = batch.map(eventLog => this.toEventFrontmatter(eventLog));
+        await this.storage.writeEvents(records);
+        this.journal.acknowledge(new Set(batch.map(eventLog => eventLog.guid)));
+
+        // Forwarded only once written, so a batch retried locally is not sent twice
+        this.webhook.enqueue(batch);
+
+        console.log(`[ObsidianObserver] Buffer flushed: ${records.length} events written to ${this.config.storageBackend} storage`);
+      } catch (error) {
+        // Keep the unwritten part of the batch buffered (and journaled) for the next flush
+        const written = error instanceof PartialWriteError ? error.written : new Set<string>();
+        if (written.size > 0) {
+          this.journal.acknowledge(written);
+          this.webhook.enqueue(batch.filter(eventLog => written.has(eventLog.guid)));
+        }
+        this.logBuffer = batch.filter(eventLog => !written.has(eventLog.guid)).concat(this.logBuffer);
+        console.error('[ObsidianObserver] Error flushing log buffer:', error);
+      }
+    });
+  }
+
+  /**
+   * Runs a storage write after every write requested before it. Backends read a
+   * day file and write it back, so overlapping writes would lose each other's events.
+   * @param task The write; its failure is passed to the caller, not to later tasks
+   */
+  private enqueueStorageTask<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.storageQueue.then(task);
+    this.storageQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Writes events left in the journal by a previous run that never flushed them
+   * @returns Number of events replayed
+   */
+  async replayJournal(): Promise<number> {
+    const pending = this.journal.pending();
+    if (pending.length === 0) return 0;
+
+    // Encrypted events cannot be checked for duplicates until the event log is unlocked
+    if (this.isLocked()) return 0;
+
+    try {
+      // Skip events that reached storage before the journal was cleared
+      const timestamps = pending.map(eventLog => new Date(eventLog.timestamp).getTime());
+      const stored = await this.storage.readEvents({
+        from: new Date(Math.min(...timestamps)),
+        to: new Date(Math.max(...timestamps))
+      });
+      const storedGuids = new Set(stored.map(record => record.OOEvent_GUID));
+      const alreadyStored = pending.filter(eventLog => storedGuids.has(eventLog.guid));
+      this.journal.acknowledge(new Set(alreadyStored.map(eventLog => eventLog.guid)));
+
+      const replay = pending.filter(eventLog => !storedGuids.has(eventLog.guid));
+      const buffered = new Set(this.logBuffer.map(eventLog => eventLog.guid));
+      this.logBuffer.unshift(...replay.filter(eventLog => !buffered.has(eventLog.guid)));
+      await this.flushBuffer();
+
+      console.log(`[ObsidianObserver] Replayed ${replay.length} unflushed events from the journal`);
+      return replay.length;
     } catch (error) {
-      console.error('[ObsidianObserver] Error flushing log buffer:', error);
+      console.error('[ObsidianObserver] Error replaying event journal:', error);
+      return 0;
     }
   }
 
-  private async createEventNote(eventLog: EventLog): Promise<void> {
-    try {
-      const eventsDir = `${this.config.eventsFolder}/events`;
-      const fileName = `${eventLog.guid}.md`;
-      const filePath = `${eventsDir}/${fileName}`;
-      
-      // Get local timezone information
-      const utcDate = new Date(eventLog.timestamp);
-      const localDate = new Date(utcDate.getTime() - (utcDate.getTimezoneOffset() * 60000));
-      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-      
-          // Convert EventLog to EventFrontmatter
-    const frontmatter: EventFrontmatter = {
+  /**
+   * The sink forwarding events to the configured webhook
+   */
+  getWebhook(): WebhookSink {
+    return this.webhook;
+  }
+
+  /**
+   * Whether stored events are encrypted, so plain-text copies such as digests are not written
+   */
+  isEncrypted(): boolean {
+    return !!this.cipher && this.cipher.isEnabled();
+  }
+
+  /**
+   * Reads the encrypted journal and webhook queue once the event log is unlocked
+   */
+  async unsealLocalCopies(): Promise<void> {
+    await this.journal.unseal();
+    await this.webhook.unseal();
+  }
+
+  /**
+   * Stores the journal and webhook queue again after encryption was turned on or off
+   */
+  persistLocalCopies(): void {
+    this.journal.persist();
+    this.webhook.persist();
+  }
+
+  /**
+   * Whether stored events are encrypted and the passphrase has not been entered yet
+   */
+  isLocked(): boolean {
+    return !!this.cipher && this.cipher.isEnabled() && !this.cipher.isUnlocked();
+  }
+
+  /**
+   * Reads stored events back from the active storage backend
+   * @param range Optional date range to limit the events returned
+   */
+  async readEvents(range?: EventDateRange): Promise<EventFrontmatter[]> {
+    return this.storage.readEvents(range);
+  }
+
+  /**
+   * Reads stored events together with events still waiting in the buffer
+   * @param range Optional date range to limit the events returned
+   * @returns The events sorted by timestamp
+   */
+  async readEventsWithBuffered(range?: EventDateRange): Promise<EventFrontmatter[]> {
+    const stored = await this.storage.readEvents(range);
+    const storedGuids = new Set(stored.map(record => record.OOEvent_GUID));
+    const buffered = this.getBufferedEvents().filter(record => {
+      const time = new Date(record.OOEvent_Timestamp).getTime();
+      return !storedGuids.has(record.OOEvent_GUID) &&
+        (!range?.from || time >= range.from.getTime()) &&
+        (!range?.to || time <= range.to.getTime());
+    });
+    return stored.concat(buffered).sort((a, b) => a.OOEvent_Timestamp.localeCompare(b.OOEvent_Timestamp));
+  }
+
+  /**
+   * Applies the filter and privacy rules to events recorded outside this logger,
+   * e.g. converted legacy events, as logEvent does for new ones
+   * @param records The records to check
+   * @returns The records to store, redacted as needed, and the aggregate-only ones
+   * to pass to countAggregates; excluded records are left out
+   */
+  async applyRules(records: EventFrontmatter[]): Promise<{ kept: EventFrontmatter[]; aggregated: EventFrontmatter[] }> {
+    const kept: EventFrontmatter[] = [];
+    const aggregated: EventFrontmatter[] = [];
+    for (const record of records) {
+      if (record.OOEvent_FilePath && this.fileFilter.evaluate(record.OOEvent_FilePath, record.OOEvent_Type).excluded) {
+        continue;
+      }
+
+      const level = record.OOEvent_FilePath ? this.privacy.getLevel(record.OOEvent_FilePath) : 'full';
+      if (level === 'aggregate') {
+        aggregated.push({ ...record, OOEvent_FilePath: '', OOEvent_FileName: '', OOEvent_FileID: undefined });
+      } else if (level !== 'full') {
+        kept.push({
+          ...record,
+          OOEvent_FilePath: (await this.privacy.redactPath(record.OOEvent_FilePath, level)) || '',
+          OOEvent_FileName: '',
+          OOEvent_FileID: level === 'hash' ? record.OOEvent_FileID : undefined,
+          OOEvent_Privacy: level
+        });
+      } else {
+        kept.push(record);
+      }
+    }
+    return { kept, aggregated };
+  }
+
+  /**
+   * Counts aggregate-only records in the daily roll-ups with the next flush
+   */
+  countAggregates(records: EventFrontmatter[]): void {
+    if (records.length === 0) return;
+    this.aggregateEvents.push(...records);
+    this.scheduleFlush();
+  }
+
+  /**
+   * Writes event records straight to the active storage backend, bypassing the buffer
+   * @param records The records to write
+   */
+  async writeEvents(records: EventFrontmatter[]): Promise<void> {
+    await this.enqueueStorageTask(() => this.storage.writeEvents(records));
+  }
+
+  /**
+   * Replaces stored event records in place in the active storage backend
+   * @param records The new versions of the records, with their original GUIDs
+   */
+  async rewriteEvents(records: EventFrontmatter[]): Promise<void> {
+    await this.enqueueStorageTask(() => this.storage.rewriteEvents(records));
+  }
+
+  /**
+   * Deletes stored events from the active storage backend
+   * @param guids GUIDs of the events to delete
+   * @returns Number of events deleted
+   */
+  async deleteEvents(guids: Set<string>): Promise<number> {
+    return this.enqueueStorageTask(() => this.storage.deleteEvents(guids));
+  }
+
+  private toEventFrontmatter(eventLog: EventLog): EventFrontmatter {
+    // Get local timezone information
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    // Convert EventLog to EventFrontmatter
+    return {
       OOEvent_GUID: eventLog.guid,
+      OOEvent_SchemaVersion: EVENT_SCHEMA_VERSION,
       OOEvent_Timestamp: eventLog.timestamp,
-      OOEvent_LocalTimestamp: localDate.toISOString(),
+      OOEvent_LocalTimestamp: toLocalTimestamp(eventLog.timestamp),
       OOEvent_Timezone: timezone,
       OOEvent_Type: eventLog.eventType,
       OOEvent_FilePath: eventLog.filePath,
       OOEvent_FileName: eventLog.fileName,
+      OOEvent_FileID: eventLog.fileId,
+      OOEvent_Privacy: eventLog.privacy,
       OOEvent_VaultName: eventLog.vaultName,
       OOEvent_Hostname: eventLog.hostname,
+      OOEvent_DeviceID: eventLog.deviceId,
       OOEvent_LastModified: eventLog.metadata?.lastModified || '',
       OOEvent_Created: new Date().toISOString(),
       OOEvent_OldPath: eventLog.metadata?.oldPath,
       OOEvent_NewPath: eventLog.metadata?.newPath,
       OOEvent_SourcePath: eventLog.metadata?.sourcePath,
       OOEvent_TargetPath: eventLog.metadata?.targetPath,
-      OOEvent_PluginVersion: this.getPluginVersion()
+      OOEvent_PluginVersion: this.getPluginVersion(),
+      OOEvent_OpenGUID: eventLog.metadata?.openGuid,
+      OOEvent_DwellSeconds: eventLog.metadata?.dwellSeconds,
+      OOEvent_ActiveSeconds: eventLog.metadata?.activeSeconds,
+      OOEvent_CloseReason: eventLog.metadata?.closeReason,
+      // The size is only recorded where it describes the content: on create and after an edit
+      OOEvent_FileSize: ['create', 'save', 'edit-burst'].includes(eventLog.eventType) ? eventLog.metadata?.fileSize : undefined,
+      OOEvent_Folder: eventLog.metadata?.folder,
+      OOEvent_SessionID: eventLog.sessionId,
+      OOEvent_SessionStart: eventLog.metadata?.session?.startedAt,
+      OOEvent_SessionEnd: eventLog.metadata?.session?.endedAt,
+      OOEvent_SessionDurationSeconds: eventLog.metadata?.session?.durationSeconds,
+      OOEvent_SessionEventCount: eventLog.metadata?.session?.eventCount,
+      OOEvent_SessionStatus: eventLog.metadata?.session?.status,
+      OOEvent_BytesAdded: eventLog.metadata?.contentDelta?.bytesAdded,
+      OOEvent_BytesRemoved: eventLog.metadata?.contentDelta?.bytesRemoved,
+      OOEvent_WordsBefore: eventLog.metadata?.contentDelta?.wordsBefore,
+      OOEvent_WordsAfter: eventLog.metadata?.contentDelta?.wordsAfter,
+      OOEvent_LinesChanged: eventLog.metadata?.contentDelta?.linesChanged,
+      OOEvent_BurstStart: eventLog.metadata?.burst?.startedAt,
+      OOEvent_BurstEnd: eventLog.metadata?.burst?.endedAt,
+      OOEvent_ModifyCount: eventLog.metadata?.burst?.modifyCount,
+      OOEvent_SizeChange: eventLog.metadata?.burst?.sizeChange,
+      OOEvent_FileCount: eventLog.metadata?.fileCount,
+      OOEvent_ChildGUIDs: eventLog.metadata?.childGuids && eventLog.metadata.childGuids.length > 0 ? eventLog.metadata.childGuids : undefined,
+      OOEvent_ParentGUID: eventLog.metadata?.parentGuid,
+      ...this.toMetadataChangeFields(eventLog.metadata?.metadataChange, eventLog.metadata?.changeSummary)
     };
-
-      // Create the note content with frontmatter
-      const noteContent = this.createNoteContent(frontmatter, eventLog);
-      
-      // Check if file already exists
-      const existingFile = this.app.vault.getAbstractFileByPath(filePath);
-      
-      if (existingFile) {
-        console.log(`[ObsidianObserver] Event note already exists: ${filePath}`);
-        return;
-      }
-
-      // Create the note file
-      await this.app.vault.create(filePath, noteContent);
-      console.log(`[ObsidianObserver] Created event note: ${filePath}`);
-      
-      // Refresh the file explorer to show the new file
-      this.app.workspace.trigger('file-explorer:refresh');
-      
-    } catch (error) {
-      console.error(`[ObsidianObserver] Error creating event note:`, error);
-    }
   }
 
-  private createNoteContent(frontmatter: EventFrontmatter, eventLog: EventLog): string {
-    // Create frontmatter string with conditional fields
-    let frontmatterFields = `---
-aliases: [${eventLog.eventType.toUpperCase()} Event, ${eventLog.fileName}]
-tags: [obsidian-explorer, event, ${eventLog.eventType}]
-type: obsidian-event
-OOEvent_GUID: ${frontmatter.OOEvent_GUID}
-OOEvent_Timestamp: ${frontmatter.OOEvent_Timestamp}
-OOEvent_LocalTimestamp: ${frontmatter.OOEvent_LocalTimestamp}
-OOEvent_Timezone: ${frontmatter.OOEvent_Timezone}
-OOEvent_Type: ${frontmatter.OOEvent_Type}
-OOEvent_FilePath: ${frontmatter.OOEvent_FilePath}
-OOEvent_FileName: ${frontmatter.OOEvent_FileName}
-OOEvent_VaultName: ${frontmatter.OOEvent_VaultName}
-OOEvent_Hostname: ${frontmatter.OOEvent_Hostname}
-OOEvent_LastModified: ${frontmatter.OOEvent_LastModified}
-OOEvent_Created: ${frontmatter.OOEvent_Created}
-OOEvent_PluginVersion: ${frontmatter.OOEvent_PluginVersion}`;
-
-    // Add optional fields if they exist
-    if (frontmatter.OOEvent_OldPath) {
-      frontmatterFields += `\nOOEvent_OldPath: ${frontmatter.OOEvent_OldPath}`;
-    }
-    if (frontmatter.OOEvent_NewPath) {
-      frontmatterFields += `\nOOEvent_NewPath: ${frontmatter.OOEvent_NewPath}`;
-    }
-    if (frontmatter.OOEvent_SourcePath) {
-      frontmatterFields += `\nOOEvent_SourcePath: ${frontmatter.OOEvent_SourcePath}`;
-    }
-    if (frontmatter.OOEvent_TargetPath) {
-      frontmatterFields += `\nOOEvent_TargetPath: ${frontmatter.OOEvent_TargetPath}`;
-    }
+  private toMetadataChangeFields(diff?: MetadataDiff, summary?: string): Partial<EventFrontmatter> {
+    if (!diff) return {};
 
-    frontmatterFields += `\n---\n\n`;
+    // Empty lists are left out so event notes only show what changed
+    const nonEmpty = (values: string[]) => values.length > 0 ? values : undefined;
+    const changedKeys = [
+      ...(diff.tagsAdded.length > 0 || diff.tagsRemoved.length > 0 ? ['tags'] : []),
+      ...(diff.aliasesAdded.length > 0 || diff.aliasesRemoved.length > 0 ? ['aliases'] : []),
+      ...Object.keys(diff.properties)
+    ];
 
-    // Create the note content - simplified to just frontmatter and link
-    let noteContent = frontmatterFields;
-    
-    // Only add file link if there's a file name (skip for quit/ready/PluginLoaded events)
-    if (eventLog.fileName && eventLog.fileName.trim() !== '') {
-      noteContent += `[[${eventLog.fileName}]]`;
-    } else {
-      noteContent += `# ${eventLog.eventType.toUpperCase()} Event\n\nThis event was logged at ${new Date(eventLog.timestamp).toLocaleString()}.`;
-    }
+    return {
+      OOEvent_ChangeSummary: summary,
+      OOEvent_ChangedKeys: changedKeys,
+      OOEvent_TagsAdded: nonEmpty(diff.tagsAdded),
+      OOEvent_TagsRemoved: nonEmpty(diff.tagsRemoved),
+      OOEvent_AliasesAdded: nonEmpty(diff.aliasesAdded),
+      OOEvent_AliasesRemoved: nonEmpty(diff.aliasesRemoved),
+      OOEvent_PropertyChanges: Object.keys(diff.properties).length > 0 ? diff.properties : undefined
+    };
+  }
 
-    return noteContent;
+  /**
+   * Whether the DataView summary notes can query the stored events; JSONL files are not notes
+   */
+  hasDataviewSummaries(): boolean {
+    return this.config.storageBackend === 'markdown';
   }
 
   // Legacy method for backward compatibility - now creates a summary note
   async createSummaryNote(): Promise<void> {
+    if (!this.hasDataviewSummaries()) {
+      console.log('[ObsidianObserver] Skipping the DataView summary note, the JSONL backend stores no event notes');
+      return;
+    }
+
     try {
       const summaryPath = `${this.config.eventsFolder}/events/_summary.md`;
       
@@ -412,10 +642,12 @@ SORT Count DESC
 
 ### File Activity
 \`\`\`dataview
-TABLE OOEvent_FileName, length(rows) as "Event Count"
+TABLE WITHOUT ID last(rows.OOEvent_FilePath) as "File", length(rows) as "Event Count"
 FROM "${this.config.eventsFolder}/events"
-GROUP BY OOEvent_FileName
-SORT "Event Count" DESC
+WHERE OOEvent_FilePath
+SORT OOEvent_Timestamp ASC
+GROUP BY default(OOEvent_FileID, OOEvent_FilePath)
+SORT length(rows) DESC
 LIMIT 20
 \`\`\`
 
@@ -526,6 +758,11 @@ views:
 
   // Create the main summary file in the events folder
   async createMainSummaryNote(): Promise<void> {
+    if (!this.hasDataviewSummaries()) {
+      console.log('[ObsidianObserver] Skipping the main DataView summary, the JSONL backend stores no event notes');
+      return;
+    }
+
     try {
       const summaryPath = `${this.config.eventsFolder}/EventsSummary.md`;
       
@@ -576,19 +813,21 @@ const pages = dv.pages('"${this.config.eventsFolder}/events"')
 
 const grouped = new Map();
 
+// Group by the persistent file ID so renamed notes are counted once, under their current path
 for (let page of pages) {
-  const key = page.OOEvent_FileName;
+  const key = page.OOEvent_FileID || page.OOEvent_FilePath;
   if (!grouped.has(key)) grouped.set(key, []);
   grouped.get(key).push(page);
 }
 
 const result = Array.from(grouped.entries())
-  .map(([file, rows]) => {
+  .map(([key, rows]) => {
+    const latest = rows.reduce((a, b) => (b.OOEvent_Timestamp > a.OOEvent_Timestamp ? b : a));
     const opens = rows.filter(r => r.OOEvent_Type === "open").length;
-    const saves = rows.filter(r => r.OOEvent_Type === "save").length;
+    const saves = rows.filter(r => r.OOEvent_Type === "save" || r.OOEvent_Type === "edit-burst").length;
     const closes = rows.filter(r => r.OOEvent_Type === "close").length;
     return {
-      File: file.replace(/\\.md$/, ""),
+      File: latest.OOEvent_FilePath.replace(/\\.md$/, ""),
       Opens: opens,
       Saves: saves,
       Closes: closes,
@@ -638,6 +877,35 @@ html += \`
 dv.container.innerHTML = html;
 \`\`\`
 
+## Sessions
+
+### Sessions per Day
+\`\`\`dataview
+TABLE WITHOUT ID
+  key AS "Date",
+  length(rows) AS "Sessions",
+  round(sum(rows.OOEvent_SessionDurationSeconds) / length(rows) / 60, 1) AS "Avg Minutes",
+  length(filter(rows, (r) => r.OOEvent_SessionStatus = "abnormal")) AS "Abnormal"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_Type = "session-end"
+GROUP BY dateformat(date(OOEvent_SessionStart), "yyyy-MM-dd")
+SORT key DESC
+LIMIT 30
+\`\`\`
+
+### Average Session Length per Device
+\`\`\`dataview
+TABLE WITHOUT ID
+  key AS "Host",
+  length(rows) AS "Sessions",
+  round(sum(rows.OOEvent_SessionDurationSeconds) / length(rows) / 60, 1) AS "Avg Minutes",
+  sum(rows.OOEvent_SessionEventCount) AS "Events"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_Type = "session-end"
+GROUP BY OOEvent_Hostname
+SORT length(rows) DESC
+\`\`\`
+
 ## File Operations
 
 ### Recent File Opens
@@ -666,12 +934,44 @@ SORT OOEvent_LocalTimestamp DESC
 LIMIT 10
 \`\`\`
 
+### Recent Edit Bursts
+\`\`\`dataview
+TABLE WITHOUT ID
+  regexreplace(OOEvent_FileName, ".md$", "") AS "File",
+  OOEvent_ModifyCount AS "Modifies",
+  OOEvent_SizeChange AS "Size Change",
+  dateformat(date(OOEvent_BurstStart), "yyyy-MM-dd HH:mm:ss") AS "Started",
+  dateformat(date(OOEvent_BurstEnd), "HH:mm:ss") AS "Ended"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_Type = "edit-burst"
+SORT OOEvent_LocalTimestamp DESC
+LIMIT 10
+\`\`\`
+
+### Writing Output per File
+\`\`\`dataview
+TABLE WITHOUT ID
+  regexreplace(last(rows.OOEvent_FilePath), ".md$", "") AS "File",
+  length(rows) AS "Saves",
+  sum(rows.OOEvent_BytesAdded) AS "Bytes Added",
+  sum(rows.OOEvent_BytesRemoved) AS "Bytes Removed",
+  sum(rows.OOEvent_WordsAfter) - sum(rows.OOEvent_WordsBefore) AS "Net Words",
+  sum(rows.OOEvent_LinesChanged) AS "Lines Changed"
+FROM "${this.config.eventsFolder}/events"
+WHERE (OOEvent_Type = "save" OR OOEvent_Type = "edit-burst") AND OOEvent_WordsAfter
+SORT OOEvent_Timestamp ASC
+GROUP BY default(OOEvent_FileID, OOEvent_FilePath)
+SORT sum(rows.OOEvent_BytesAdded) DESC
+LIMIT 15
+\`\`\`
+
 ### Recent File Closes
 \`\`\`dataview
 TABLE WITHOUT ID
   regexreplace(OOEvent_FileName, ".md$", "") AS "File",
   upper(OOEvent_Type) AS "Type",
   OOEvent_Hostname AS "Host",
+  OOEvent_DwellSeconds AS "Open (s)",
   dateformat(OOEvent_LocalTimestamp, "yyyy-MM-dd HH:mm:ss") AS "When"
 FROM "${this.config.eventsFolder}/events"
 WHERE OOEvent_Type = "close"
@@ -679,6 +979,63 @@ SORT OOEvent_LocalTimestamp DESC
 LIMIT 10
 \`\`\`
 
+### Time Spent per File
+\`\`\`dataview
+TABLE WITHOUT ID
+  regexreplace(last(rows.OOEvent_FilePath), ".md$", "") AS "File",
+  length(rows) AS "Visits",
+  round(sum(rows.OOEvent_DwellSeconds) / 60, 1) AS "Minutes Open",
+  round(sum(rows.OOEvent_DwellSeconds) / length(rows)) AS "Avg (s)"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_Type = "close" AND OOEvent_DwellSeconds
+SORT OOEvent_Timestamp ASC
+GROUP BY default(OOEvent_FileID, OOEvent_FilePath)
+SORT sum(rows.OOEvent_DwellSeconds) DESC
+LIMIT 15
+\`\`\`
+
+## Active Editing Time
+
+Focused time measured from typing, clicking and scrolling in the editor, excluding idle pauses.
+
+### Active Minutes per File
+\`\`\`dataview
+TABLE WITHOUT ID
+  regexreplace(last(rows.OOEvent_FilePath), ".md$", "") AS "File",
+  round(sum(rows.OOEvent_ActiveSeconds) / 60, 1) AS "Active Minutes"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_ActiveSeconds > 0
+SORT OOEvent_Timestamp ASC
+GROUP BY default(OOEvent_FileID, OOEvent_FilePath)
+SORT sum(rows.OOEvent_ActiveSeconds) DESC
+LIMIT 15
+\`\`\`
+
+### Active Minutes per Folder
+\`\`\`dataview
+TABLE WITHOUT ID
+  key AS "Folder",
+  round(sum(rows.OOEvent_ActiveSeconds) / 60, 1) AS "Active Minutes"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_ActiveSeconds > 0
+GROUP BY choice(contains(OOEvent_FilePath, "/"), regexreplace(OOEvent_FilePath, "/[^/]*$", ""), "(vault root)")
+SORT sum(rows.OOEvent_ActiveSeconds) DESC
+LIMIT 15
+\`\`\`
+
+### Active Minutes per Day
+\`\`\`dataview
+TABLE WITHOUT ID
+  key AS "Date",
+  round(sum(rows.OOEvent_ActiveSeconds) / 60, 1) AS "Active Minutes",
+  length(rows) AS "Events"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_ActiveSeconds > 0
+GROUP BY dateformat(OOEvent_LocalTimestamp, "yyyy-MM-dd")
+SORT key DESC
+LIMIT 30
+\`\`\`
+
 ## File Management
 
 ### Recently Created Files
@@ -687,6 +1044,8 @@ TABLE WITHOUT ID
   regexreplace(OOEvent_FileName, ".md$", "") AS "File",
   upper(OOEvent_Type) AS "Type",
   OOEvent_Hostname AS "Host",
+  OOEvent_Folder AS "Folder",
+  OOEvent_FileSize AS "Size",
   dateformat(OOEvent_LocalTimestamp, "yyyy-MM-dd HH:mm:ss") AS "When"
 FROM "${this.config.eventsFolder}/events"
 WHERE OOEvent_Type = "create"
@@ -722,6 +1081,81 @@ SORT OOEvent_LocalTimestamp DESC
 LIMIT 10
 \`\`\`
 
+### Recent Folder Operations
+\`\`\`dataview
+TABLE WITHOUT ID
+  OOEvent_FilePath AS "Folder",
+  upper(OOEvent_Type) AS "Type",
+  OOEvent_Hostname AS "Host",
+  OOEvent_OldPath AS "Old Path",
+  OOEvent_FileCount AS "Files",
+  length(OOEvent_ChildGUIDs) AS "File Events",
+  dateformat(OOEvent_LocalTimestamp, "yyyy-MM-dd HH:mm:ss") AS "When"
+FROM "${this.config.eventsFolder}/events"
+WHERE startswith(OOEvent_Type, "folder-")
+SORT OOEvent_LocalTimestamp DESC
+LIMIT 10
+\`\`\`
+
+## Metadata Changes
+
+### Recent Tag, Alias and Property Changes
+\`\`\`dataview
+TABLE WITHOUT ID
+  regexreplace(OOEvent_FileName, ".md$", "") AS "File",
+  OOEvent_ChangeSummary AS "Change",
+  OOEvent_Hostname AS "Host",
+  dateformat(OOEvent_LocalTimestamp, "yyyy-MM-dd HH:mm:ss") AS "When"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_Type = "metadata-change"
+SORT OOEvent_LocalTimestamp DESC
+LIMIT 20
+\`\`\`
+
+### Status Transitions
+\`\`\`dataview
+TABLE WITHOUT ID
+  regexreplace(OOEvent_FileName, ".md$", "") AS "File",
+  OOEvent_PropertyChanges.status.before AS "From",
+  OOEvent_PropertyChanges.status.after AS "To",
+  OOEvent_Hostname AS "Host",
+  dateformat(OOEvent_LocalTimestamp, "yyyy-MM-dd HH:mm:ss") AS "When"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_Type = "metadata-change" AND contains(OOEvent_ChangedKeys, "status")
+SORT OOEvent_LocalTimestamp DESC
+LIMIT 20
+\`\`\`
+
+## Link Changes
+
+### Recent Link Changes
+\`\`\`dataview
+TABLE WITHOUT ID
+  OOEvent_SourcePath AS "From",
+  choice(OOEvent_Type = "link-added", "added", "removed") AS "Change",
+  OOEvent_TargetPath AS "To",
+  OOEvent_Hostname AS "Host",
+  dateformat(OOEvent_LocalTimestamp, "yyyy-MM-dd HH:mm:ss") AS "When"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_Type = "link-added" OR OOEvent_Type = "link-removed"
+SORT OOEvent_LocalTimestamp DESC
+LIMIT 20
+\`\`\`
+
+### Link Graph Growth per Day
+\`\`\`dataview
+TABLE WITHOUT ID
+  key AS "Date",
+  length(filter(rows.OOEvent_Type, (t) => t = "link-added")) AS "Added",
+  length(filter(rows.OOEvent_Type, (t) => t = "link-removed")) AS "Removed",
+  length(filter(rows.OOEvent_Type, (t) => t = "link-added")) - length(filter(rows.OOEvent_Type, (t) => t = "link-removed")) AS "Net"
+FROM "${this.config.eventsFolder}/events"
+WHERE OOEvent_Type = "link-added" OR OOEvent_Type = "link-removed"
+GROUP BY dateformat(OOEvent_LocalTimestamp, "yyyy-MM-dd")
+SORT key DESC
+LIMIT 30
+\`\`\`
+
 ## Advanced Analysis
 
 ### Project-Related Activity
@@ -789,6 +1223,13 @@ WHERE date(OOEvent_LocalTimestamp) >= date(today) - dur(7 days)
 SORT OOEvent_LocalTimestamp DESC
 \`\`\`
 
+### Activity Heatmap (Last Year)
+Rendered by ObsidianObserver itself, so it also works without DataView. Use \`metric: minutes\` for active editing minutes per day.
+\`\`\`obsidian-observer-heatmap
+metric: events
+days: 365
+\`\`\`
+
 ### Daily Activity Summary (Last 30 Days)
 \`\`\`dataview
 TABLE date(OOEvent_LocalTimestamp) as "Date", length(rows) as "Events"
@@ -840,33 +1281,97 @@ FROM "${this.config.eventsFolder}/events"
 WHERE OOEvent_GUID = "YOUR_GUID_HERE"
 \`\`\`
 
+## Long-Term Statistics
+
+These reports combine raw events with the per-day roll-ups that the retention policy writes before it prunes old events.
+
+### Event Type Distribution (All Time)
+\`\`\`dataviewjs
+const counts = {};
+for (const page of dv.pages('"${this.config.eventsFolder}/events"').where(p => p.OOEvent_Type)) {
+  counts[page.OOEvent_Type] = (counts[page.OOEvent_Type] || 0) + 1;
+}
+for (const rollup of dv.pages('"${this.config.eventsFolder}/rollups"').where(p => p.OORollup_ByType)) {
+  for (const [type, count] of Object.entries(rollup.OORollup_ByType)) {
+    counts[type] = (counts[type] || 0) + count;
+  }
+}
+dv.table(["Type", "Count"], Object.entries(counts).sort((a, b) => b[1] - a[1]));
+\`\`\`
+
+### Daily Activity from Roll-ups
+\`\`\`dataview
+TABLE WITHOUT ID
+  OORollup_Date AS "Date",
+  OORollup_Total AS "Events"
+FROM "${this.config.eventsFolder}/rollups"
+SORT OORollup_Date DESC
+LIMIT 30
+\`\`\`
+
 ## Event Types Explained
 
 - **open**: File opened in Obsidian editor
 - **save**: File modified and saved
-- **close**: File closed in editor
-- **create**: New file created
+- **edit-burst**: Consecutive autosaves of one file folded into a single event (when edit coalescing is enabled)
+- **close**: File closed in editor or switched away from (includes how long it was open)
+- **create**: New file created (includes its initial size and folder)
 - **delete**: File deleted from vault
 - **rename**: File renamed or moved (includes old and new paths)
 - **ready**: Obsidian application fully loaded and ready
 - **quit**: Obsidian application closing
 - **PluginLoaded**: ObsidianObserver plugin loaded and initialized
+- **session-end**: Summary of one Obsidian run (start, end, duration, event count); marked abnormal when the run never logged a quit
+- **folder-create** / **folder-rename** / **folder-move** / **folder-delete**: Folder operations, with the number of files inside and links to the per-file events they caused
+- **metadata-change**: A note's tags, aliases or frontmatter properties changed (includes a before/after diff)
+- **link-added** / **link-removed**: A saved note gained or lost an outgoing link to another note
 
 ## Metadata Fields
 
 - **OOEvent_GUID**: Unique Base32 identifier for each event
+- **OOEvent_SchemaVersion**: Version of the event record layout (older events can be upgraded with the Migrate Event Notes command)
 - **OOEvent_Timestamp**: ISO timestamp of the event (UTC)
 - **OOEvent_LocalTimestamp**: Local timestamp of the event (user's timezone)
 - **OOEvent_Type**: Type of file operation
 - **OOEvent_FilePath**: Full path to the file
 - **OOEvent_FileName**: Name of the file
+- **OOEvent_FileID**: Persistent ID of the file that survives renames and moves; reports group by it and show the current path
+- **OOEvent_Privacy**: hash or top-folder when a privacy rule replaced the file's path and name with a salted hash or its top-level folder
+- **OOEvent_Encrypted**: The whole event, encrypted with the vault's passphrase; encrypted event notes only show their GUID here, so the tables above do not list them
 - **OOEvent_VaultName**: Name of the vault
-- **OOEvent_Hostname**: Hostname of the machine where the event occurred
+- **OOEvent_Hostname**: Hostname of the machine where the event occurred (or its friendly device name)
+- **OOEvent_DeviceID**: Persistent ID of the device where the event occurred
 - **OOEvent_LastModified**: Last modification time of the file
 - **OOEvent_Created**: When the event note was created
-- **OOEvent_FileSize**: Size of the file in bytes
+- **OOEvent_FileSize**: Size of the file in bytes (for create and save events)
+- **OOEvent_Folder**: Folder the file was created in (for create events)
 - **OOEvent_OldPath**: Previous path (for rename events)
 - **OOEvent_NewPath**: New path (for rename events)
+- **OOEvent_SourcePath**: Note containing the link (for link-added and link-removed events)
+- **OOEvent_TargetPath**: Note the link points to (for link-added and link-removed events)
+- **OOEvent_OpenGUID**: GUID of the matching open event (for close events)
+- **OOEvent_DwellSeconds**: Seconds the file was open before it was closed (for close events)
+- **OOEvent_ActiveSeconds**: Active editing time in seconds since the note's previous close, save or edit-burst event, excluding idle pauses (for close, save and edit-burst events)
+- **OOEvent_CloseReason**: Why the file was closed: switch, leaf-closed, quit or unload (for close events)
+- **OOEvent_BytesAdded** / **OOEvent_BytesRemoved**: Bytes added and removed since the last known version (for save and edit-burst events)
+- **OOEvent_WordsBefore** / **OOEvent_WordsAfter**: Word count before and after the save (for save and edit-burst events)
+- **OOEvent_LinesChanged**: Number of lines changed by the save (for save and edit-burst events)
+- **OOEvent_BurstStart** / **OOEvent_BurstEnd**: First and last modify of the burst (for edit-burst events)
+- **OOEvent_ModifyCount**: Number of modifies folded into the burst (for edit-burst events)
+- **OOEvent_SizeChange**: Net change in file size over the burst in bytes (for edit-burst events)
+- **OOEvent_SessionID**: Session (one Obsidian run) the event belongs to
+- **OOEvent_SessionStart** / **OOEvent_SessionEnd**: Start and end of the session (for session-end events)
+- **OOEvent_SessionDurationSeconds**: Length of the session in seconds (for session-end events)
+- **OOEvent_SessionEventCount**: Number of events logged during the session (for session-end events)
+- **OOEvent_SessionStatus**: ended, or abnormal when the session never logged a quit (for session-end events)
+- **OOEvent_FileCount**: Number of files inside the folder (for folder events)
+- **OOEvent_ChildGUIDs**: GUIDs of the per-file events a folder operation caused (for folder events)
+- **OOEvent_ParentGUID**: GUID of the folder event that caused this file event
+- **OOEvent_ChangeSummary**: One-line description of a metadata change, e.g. "status: draft → published" (for metadata-change events)
+- **OOEvent_ChangedKeys**: Changed keys, including tags and aliases (for metadata-change events)
+- **OOEvent_TagsAdded** / **OOEvent_TagsRemoved**: Tags added and removed (for metadata-change events)
+- **OOEvent_AliasesAdded** / **OOEvent_AliasesRemoved**: Aliases added and removed (for metadata-change events)
+- **OOEvent_PropertyChanges**: Before and after values of each changed frontmatter property (for metadata-change events)
 `;
 
       // Check if summary file already exists
@@ -894,6 +1399,12 @@ WHERE OOEvent_GUID = "YOUR_GUID_HERE"
 
   // Refresh the main summary file by deleting and recreating it
   async refreshMainSummaryNote(): Promise<void> {
+    // Without DataView summaries nothing would replace the notes, so existing ones are kept
+    if (!this.hasDataviewSummaries()) {
+      console.log('[ObsidianObserver] Keeping the main summary notes, the JSONL backend does not rewrite them');
+      return;
+    }
+
     try {
       const summaryPath = `${this.config.eventsFolder}/EventsSummary.md`;
       const basePath = `${this.config.eventsFolder}/EventsBase.base`;
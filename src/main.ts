@@ -1,16 +1,71 @@
-import { Plugin, Notice, PluginSettingTab, Setting, App } from 'obsidian';
+import { Plugin, Notice, PluginSettingTab, Setting, App, TFile } from 'obsidian';
 import { EventLogger } from './logger';
 import { EventHandlers } from './eventHandlers';
-import { LoggerConfig, PluginSettings } from './types';
+import { SessionTracker } from './session';
+import { DeviceIdentity } from './deviceIdentity';
+import { FileIdentityRegistry } from './fileIdentity';
+import { LoggerConfig, PluginSettings, StorageBackend, FilterRule, FilterRuleAction, FilterRuleTarget, EventType, EVENT_TYPES, RetentionRule, PrivacyRule, PrivacyLevel } from './types';
+import { DEFAULT_FILTER_RULES, FileFilter } from './filterRules';
+import { RetentionManager, RetentionPreviewModal } from './retention';
+import { DigestWriter } from './digest';
+import { DailyNoteSummaryWriter } from './dailyNoteSummary';
+import { PluginWriteRegistry } from './pluginWrites';
+import { EncryptionManager, EventCipher, PassphraseModal } from './encryption';
+import { describeWebhookStatus, formatWebhookHeaders, parseWebhookHeaders } from './webhookSink';
+import { formatLocalDate, generateBase32Guid } from './utils';
+import { EventExporter, ExportModal } from './exporter';
+import { EventMigrator, MigrationPreviewModal } from './migration';
+import { ActivityTimelineView, TIMELINE_VIEW_TYPE } from './timelineView';
+import { buildNoteHistory, NoteHistoryModal } from './noteHistory';
+import { ActivityHeatmapView, HEATMAP_CODE_BLOCK, HEATMAP_VIEW_TYPE, loadHeatmapEvents, parseHeatmapOptions, renderActivityHeatmap } from './heatmapView';
 
 export const DEFAULT_SETTINGS: PluginSettings = {
   eventsFolder: 'ObsidianObserver',
-  enableConsoleLog: true
+  enableConsoleLog: true,
+  storageBackend: 'markdown',
+  editBurstWindowSeconds: 30,
+  filterRules: DEFAULT_FILTER_RULES,
+  maxBufferSize: 3,
+  flushIntervalSeconds: 10,
+  idleThresholdSeconds: 120,
+  privacyRules: [],
+  privacySalt: '',
+  webhook: {
+    enabled: false,
+    url: '',
+    headers: {},
+    authToken: '',
+    batchSize: 100
+  },
+  deviceNames: {},
+  enableRetention: false,
+  retentionRules: [
+    { eventType: 'open', maxAgeDays: 30 },
+    { eventType: 'close', maxAgeDays: 30 },
+    { eventType: 'save', maxAgeDays: 90 },
+    { eventType: 'edit-burst', maxAgeDays: 90 },
+    { eventType: '*', maxAgeDays: 0 }
+  ],
+  maxLogEntries: 0,
+  enableDailyDigest: true,
+  enableWeeklyDigest: true,
+  enableDailyNoteSummary: false,
+  encryption: null
 };
 
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 export default class ObsidianObserverPlugin extends Plugin {
   private logger!: EventLogger;
   private eventHandlers!: EventHandlers;
+  private sessionTracker!: SessionTracker;
+  public deviceIdentity!: DeviceIdentity;
+  private fileIdentity!: FileIdentityRegistry;
+  private retentionManager!: RetentionManager;
+  private digestWriter!: DigestWriter;
+  private dailyNoteSummaryWriter!: DailyNoteSummaryWriter;
+  private cipher!: EventCipher;
+  private encryptionManager!: EncryptionManager;
   public settings: PluginSettings;
 
   constructor(app: any, manifest: any) {
@@ -26,25 +81,55 @@ export default class ObsidianObserverPlugin extends Plugin {
       await this.loadSettings();
 
       // Initialize logger configuration from settings
-      const loggerConfig: LoggerConfig = {
-        eventsFolder: this.settings.eventsFolder,
-        enableConsoleLog: this.settings.enableConsoleLog
-      };
+      const loggerConfig = this.getLoggerConfig();
+
+      // Identify this device once, so every event reports the same host
+      this.deviceIdentity = new DeviceIdentity(() => this.settings.deviceNames);
+
+      // Start a new session, picking up any previous session that never quit
+      this.sessionTracker = new SessionTracker(this.app);
+      const abandonedSessionEvent = this.sessionTracker.start(this.deviceIdentity.getHostname());
+
+      // Load the persistent file IDs that keep a note's identity across renames
+      this.fileIdentity = new FileIdentityRegistry(this.app, `${this.manifest.dir}/file-ids.json`);
+      await this.fileIdentity.load();
+
+      // The encryption key is only held in memory, so an encrypted event log starts locked
+      this.cipher = new EventCipher(this.settings.encryption);
 
       // Create logger instance
-      this.logger = new EventLogger(this.app, loggerConfig, this.manifest.version);
+      this.logger = new EventLogger(this.app, loggerConfig, this.manifest.version, this.sessionTracker, this.deviceIdentity, this.fileIdentity, this.cipher);
+
+      // Create encryption manager for encrypting, re-keying and decrypting the stored events
+      this.encryptionManager = new EncryptionManager(this.logger, this.cipher, async (encryption) => {
+        this.settings.encryption = encryption;
+        await this.saveSettings();
+      });
 
       // Ensure events directory exists
       await this.logger.ensureEventsDirectoryExists();
 
+      // Write any events a previous run journaled but never flushed
+      await this.logger.replayJournal();
+
       // Create summary note for DataView queries
       await this.logger.createSummaryNote();
 
       // Create main summary file in configured directory
       await this.logger.createMainSummaryNote();
 
+      // Create retention manager for pruning and rolling up old events
+      this.retentionManager = new RetentionManager(this.app, this.logger, () => this.settings);
+
+      // Create digest writer for the daily and weekly activity digests
+      this.digestWriter = new DigestWriter(this.app, this.logger, () => this.settings);
+
+      // Create writer for the activity section in daily notes; its writes are not logged as edits
+      const pluginWrites = new PluginWriteRegistry();
+      this.dailyNoteSummaryWriter = new DailyNoteSummaryWriter(this.app, this.logger, pluginWrites);
+
       // Create event handlers
-      this.eventHandlers = new EventHandlers(this.app, this.logger);
+      this.eventHandlers = new EventHandlers(this.app, this.logger, this.deviceIdentity, this.fileIdentity, pluginWrites);
 
       // Register event handlers
       this.eventHandlers.registerEventHandlers();
@@ -52,9 +137,61 @@ export default class ObsidianObserverPlugin extends Plugin {
       // Register application quit detection events
       this.registerQuitDetectionEvents();
 
+      // Watch editor activity for active editing time
+      this.registerActivityEvents();
+
       // Add settings tab
       this.addSettingTab(new ObsidianObserverSettingTab(this.app, this));
 
+      // Register the live activity timeline side panel
+      this.registerView(TIMELINE_VIEW_TYPE, (leaf) => new ActivityTimelineView(leaf, this.logger));
+      this.addRibbonIcon('activity', 'Open Activity Timeline', () => this.activateTimelineView());
+      this.addCommand({
+        id: 'obsidian-observer-open-timeline',
+        name: 'ObsidianObserver: Open Activity Timeline',
+        callback: () => this.activateTimelineView()
+      });
+
+      // Add command and file menu entry for showing the event history of a note
+      this.addCommand({
+        id: 'obsidian-observer-show-note-history',
+        name: 'ObsidianObserver: Show History of This Note',
+        checkCallback: (checking: boolean) => {
+          const file = this.app.workspace.getActiveFile();
+          if (!file) return false;
+          if (!checking) {
+            this.showNoteHistory(file);
+          }
+          return true;
+        }
+      });
+      this.registerEvent(
+        this.app.workspace.on('file-menu', (menu, file) => {
+          if (!(file instanceof TFile)) return;
+          menu.addItem(item => item
+            .setTitle('Show ObsidianObserver history')
+            .setIcon('history')
+            .onClick(() => this.showNoteHistory(file)));
+        })
+      );
+
+      // Register the calendar heatmap as a view and as an embeddable code block
+      this.registerView(HEATMAP_VIEW_TYPE, (leaf) => new ActivityHeatmapView(leaf, this.logger));
+      this.addCommand({
+        id: 'obsidian-observer-open-heatmap',
+        name: 'ObsidianObserver: Open Activity Heatmap',
+        callback: () => this.activateHeatmapView()
+      });
+      this.registerMarkdownCodeBlockProcessor(HEATMAP_CODE_BLOCK, async (source, el) => {
+        const options = parseHeatmapOptions(source);
+        try {
+          renderActivityHeatmap(el, this.app, await loadHeatmapEvents(this.logger, options.days), options);
+        } catch (error) {
+          console.error('[ObsidianObserver] Error rendering heatmap code block:', error);
+          el.setText('Could not load ObsidianObserver events for the heatmap.');
+        }
+      });
+
       // Add ribbon icon for manual testing
       this.addRibbonIcon('bug', 'Test ObsidianObserver Logging', async () => {
         await this.eventHandlers.testLogging();
@@ -83,18 +220,179 @@ export default class ObsidianObserverPlugin extends Plugin {
           await this.logger.refreshMainSummaryNote();
           // Refresh the file explorer to show any updated files
           this.app.workspace.trigger('file-explorer:refresh');
-          new Notice('Events summary refreshed!');
+          new Notice(this.logger.hasDataviewSummaries()
+            ? 'Events summary refreshed!'
+            : 'DataView summaries need the markdown storage backend; use the timeline, heatmap, digests or export instead');
+        }
+      });
+
+      // Add command palette command for previewing and applying the retention policy
+      this.addCommand({
+        id: 'obsidian-observer-apply-retention',
+        name: 'ObsidianObserver: Apply Retention Policy',
+        callback: async () => {
+          if (!this.ensureUnlocked()) return;
+          await this.logger.flushBuffer();
+          const plan = await this.retentionManager.plan();
+          new RetentionPreviewModal(this.app, plan, async () => {
+            const deleted = await this.retentionManager.apply(plan);
+            this.app.workspace.trigger('file-explorer:refresh');
+            new Notice(`Retention applied: ${deleted} events rolled up and deleted`);
+          }).open();
+        }
+      });
+
+      // Add command palette command for exporting events to CSV, JSON or NDJSON
+      this.addCommand({
+        id: 'obsidian-observer-export-events',
+        name: 'ObsidianObserver: Export Events',
+        callback: () => {
+          if (!this.ensureUnlocked()) return;
+          new ExportModal(this.app, new EventExporter(this.app, this.logger)).open();
         }
       });
 
+      // Add command palette command for upgrading older and legacy event notes to the current schema
+      this.addCommand({
+        id: 'obsidian-observer-migrate-events',
+        name: 'ObsidianObserver: Migrate Event Notes',
+        callback: async () => {
+          if (!this.ensureUnlocked()) return;
+          await this.logger.flushBuffer();
+          const migrator = new EventMigrator(this.app, this.logger);
+          const plan = await migrator.plan();
+          new MigrationPreviewModal(this.app, plan, async (backup) => {
+            try {
+              const result = await migrator.apply(plan, backup);
+              this.app.workspace.trigger('file-explorer:refresh');
+              new Notice(`Migration complete: ${result.upgraded} events upgraded, ${result.converted} legacy events converted${result.backupFolder ? `\nBackup: ${result.backupFolder}` : ''}`);
+            } catch (error) {
+              console.error('[ObsidianObserver] Error migrating event notes:', error);
+              new Notice('Migration failed, see the console for details');
+            }
+          }).open();
+        }
+      });
+
+      // Add command palette command for writing digests of ended days and weeks that have none yet
+      this.addCommand({
+        id: 'obsidian-observer-write-digests',
+        name: 'ObsidianObserver: Write Missing Digests',
+        callback: async () => {
+          if (this.logger.isEncrypted()) {
+            new Notice('Digests are not written while the event log is encrypted');
+            return;
+          }
+          const written = await this.digestWriter.writeDue();
+          this.app.workspace.trigger('file-explorer:refresh');
+          new Notice(written > 0 ? `${written} digests written` : 'All digests are up to date');
+        }
+      });
+
+      // Add command palette command for inserting or refreshing the activity section in today's daily note
+      this.addCommand({
+        id: 'obsidian-observer-update-daily-note',
+        name: 'ObsidianObserver: Update Today\'s Daily Note Summary',
+        callback: async () => {
+          if (this.logger.isEncrypted()) {
+            new Notice('The daily note summary is not written while the event log is encrypted');
+            return;
+          }
+          try {
+            const path = await this.dailyNoteSummaryWriter.update(new Date());
+            new Notice(path ? `Activity summary written to ${path}` : 'Today\'s daily note does not exist yet');
+          } catch (error) {
+            console.error('[ObsidianObserver] Error updating daily note summary:', error);
+            new Notice('Could not update the daily note, see the console for details');
+          }
+        }
+      });
+
+      // Add command palette commands for unlocking, encrypting and decrypting the stored events
+      this.addCommand({
+        id: 'obsidian-observer-unlock-events',
+        name: 'ObsidianObserver: Unlock Encrypted Event Log',
+        checkCallback: (checking: boolean) => {
+          if (!this.logger.isLocked()) return false;
+          if (!checking) {
+            this.promptUnlock();
+          }
+          return true;
+        }
+      });
+      this.addCommand({
+        id: 'obsidian-observer-encrypt-events',
+        name: 'ObsidianObserver: Encrypt Event Log',
+        checkCallback: (checking: boolean) => {
+          if (this.cipher.isEnabled()) return false;
+          if (!checking) {
+            this.promptSetPassphrase();
+          }
+          return true;
+        }
+      });
+      this.addCommand({
+        id: 'obsidian-observer-change-passphrase',
+        name: 'ObsidianObserver: Change Encryption Passphrase',
+        checkCallback: (checking: boolean) => {
+          if (!this.cipher.isEnabled()) return false;
+          if (!checking) {
+            this.promptSetPassphrase();
+          }
+          return true;
+        }
+      });
+      this.addCommand({
+        id: 'obsidian-observer-decrypt-events',
+        name: 'ObsidianObserver: Decrypt Event Log',
+        checkCallback: (checking: boolean) => {
+          if (!this.cipher.isEnabled()) return false;
+          if (!checking) {
+            this.promptDecryptAll();
+          }
+          return true;
+        }
+      });
+
+      // Show webhook delivery in the status bar, and resume delivery when the device comes back online
+      this.registerWebhookStatus();
+      this.registerDomEvent(window, 'online', () => this.logger.getWebhook().send());
+      this.addCommand({
+        id: 'obsidian-observer-retry-webhook',
+        name: 'ObsidianObserver: Retry Webhook Delivery',
+        callback: async () => {
+          await this.logger.getWebhook().resume();
+          const status = this.logger.getWebhook().getStatus();
+          if (status.queued > 0) {
+            new Notice(`Webhook delivery failed (${status.lastError}), ${status.queued} events still queued`);
+          } else if (status.rejected > 0) {
+            new Notice(`Webhook queue is empty, but the endpoint rejected ${status.rejected} events this session (${status.lastError})`);
+          } else {
+            new Notice('All events delivered to the webhook');
+          }
+        }
+      });
+
+      // Run the retention policy and write due digests once the vault has loaded, then check hourly
+      this.app.workspace.onLayoutReady(() => {
+        // Deliver events queued for the webhook in an earlier session
+        this.logger.getWebhook().send();
+        if (this.logger.isLocked()) {
+          this.promptUnlock();
+        }
+        this.runScheduledTasks();
+      });
+      this.registerInterval(window.setInterval(() => this.runScheduledTasks(), 60 * 60 * 1000));
+
       // Add command palette command for debugging hostname
       this.addCommand({
         id: 'obsidian-observer-debug-hostname',
         name: 'ObsidianObserver: Debug Hostname',
         callback: () => {
-          const hostname = this.getHostname();
-          console.log('[ObsidianObserver] Debug - Final hostname result:', hostname);
-          new Notice(`Hostname: ${hostname}`);
+          const hostname = this.deviceIdentity.getHostname();
+          const deviceId = this.deviceIdentity.getDeviceId();
+          console.log('[ObsidianObserver] Debug - Final hostname result:', hostname, deviceId);
+          new Notice(`Hostname: ${hostname}\nDevice ID: ${deviceId}`);
         }
       });
 
@@ -103,9 +401,16 @@ export default class ObsidianObserverPlugin extends Plugin {
         await this.logger.createSummaryNote();
         // Refresh the file explorer to show any new files
         this.app.workspace.trigger('file-explorer:refresh');
-        new Notice('Events summary created!');
+        new Notice(this.logger.hasDataviewSummaries()
+          ? 'Events summary created!'
+          : 'DataView summaries need the markdown storage backend; use the timeline, heatmap, digests or export instead');
       });
 
+      // Close out the previous session as abnormal if it never logged a quit
+      if (abandonedSessionEvent) {
+        await this.logger.logEvent(abandonedSessionEvent);
+      }
+
       // Log PluginLoaded event after successful initialization
       const { generateBase32Guid } = await import('./utils');
       const pluginLoadedEvent = {
@@ -115,7 +420,7 @@ export default class ObsidianObserverPlugin extends Plugin {
         filePath: '',
         fileName: '',
         vaultName: this.app.vault.getName(),
-        hostname: this.getHostname(),
+        hostname: this.deviceIdentity.getHostname(),
         metadata: {
           lastModified: new Date().toISOString(),
           pluginVersion: this.manifest.version
@@ -129,8 +434,33 @@ export default class ObsidianObserverPlugin extends Plugin {
     }
   }
 
+  /**
+   * Recreates the DataView summary for the active storage backend, removing it for backends it cannot query
+   */
+  /**
+   * Creates the DataView summary notes that are missing, e.g. after switching to the markdown backend
+   */
+  async createSummaryNotes() {
+    if (this.logger) {
+      await this.logger.createSummaryNote();
+      await this.logger.createMainSummaryNote();
+    }
+  }
+
+  async flushEvents() {
+    if (this.logger) {
+      await this.logger.flushBuffer();
+    }
+  }
+
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+    // Hashed paths need a salt that stays the same for the vault
+    if (!this.settings.privacySalt) {
+      this.settings.privacySalt = generateBase32Guid();
+      await this.saveSettings();
+    }
   }
 
   async saveSettings() {
@@ -145,14 +475,38 @@ export default class ObsidianObserverPlugin extends Plugin {
     await this.updateLoggerConfiguration();
   }
 
+  /**
+   * Restores the default settings and applies them to the running logger and event handlers
+   */
+  async resetSettings() {
+    // The salt is kept so hashed paths stay comparable with earlier events, and the
+    // encryption settings so encrypted events stay readable
+    this.settings = { ...DEFAULT_SETTINGS, privacySalt: this.settings.privacySalt, encryption: this.settings.encryption };
+    await this.saveSettings();
+    await this.updateLoggerConfiguration();
+  }
+
+  getLoggerConfig(): LoggerConfig {
+    return {
+      eventsFolder: this.settings.eventsFolder,
+      enableConsoleLog: this.settings.enableConsoleLog,
+      storageBackend: this.settings.storageBackend,
+      editBurstWindowSeconds: this.settings.editBurstWindowSeconds,
+      filterRules: this.settings.filterRules,
+      maxBufferSize: this.settings.maxBufferSize,
+      flushIntervalSeconds: this.settings.flushIntervalSeconds,
+      idleThresholdSeconds: this.settings.idleThresholdSeconds,
+      privacyRules: this.settings.privacyRules,
+      privacySalt: this.settings.privacySalt,
+      webhook: this.settings.webhook
+    };
+  }
+
   private async updateLoggerConfiguration() {
     if (!this.logger) return;
     
     // Create new logger configuration from updated settings
-    const newLoggerConfig: LoggerConfig = {
-      eventsFolder: this.settings.eventsFolder,
-      enableConsoleLog: this.settings.enableConsoleLog
-    };
+    const newLoggerConfig = this.getLoggerConfig();
     
     // Update the logger's configuration
     this.logger.updateConfig(newLoggerConfig);
@@ -170,102 +524,100 @@ export default class ObsidianObserverPlugin extends Plugin {
     
   }
 
-  private getHostname(): string {
-    // Create a meaningful machine identifier from available Obsidian context
+  private async runScheduledTasks() {
+    // Digests and retention would only see the events that are not encrypted
+    if (this.logger?.isLocked()) return;
+
+    // Digests first, so they are built from events the retention policy is about to prune
+    await this.runScheduledDigests();
+    await this.runScheduledDailyNoteSummary();
+    await this.runScheduledRetention();
+  }
+
+  private async runScheduledDigests() {
+    if (!this.digestWriter || (!this.settings.enableDailyDigest && !this.settings.enableWeeklyDigest)) return;
+
+    // A new day is the earliest a new digest can be due
+    const today = formatLocalDate(new Date());
+    if (this.settings.lastDigestRun === today) return;
+
     try {
-      // Method 1: Try to use Node.js os module (most reliable - uses uv_os_gethostname)
-      if (typeof require !== 'undefined') {
-        try {
-          const os = require('os');
-          if (os && typeof os.hostname === 'function') {
-            const hostname = os.hostname();
-            console.log('[ObsidianObserver] os.hostname() result:', hostname);
-            
-            // Check if we got a meaningful hostname (not localhost or empty)
-            if (hostname && 
-                hostname.trim() && 
-                hostname !== 'localhost' && 
-                hostname !== '127.0.0.1' &&
-                hostname !== '::1') {
-              return hostname;
-            }
-          }
-        } catch (osError) {
-          console.log('[ObsidianObserver] os module not available or error:', osError);
-        }
-      }
-      
-      // Method 2: Try to get from environment variables (fallback)
-      if (typeof process !== 'undefined' && process.env) {
-        // macOS and Linux
-        if (process.env.HOSTNAME && process.env.HOSTNAME !== 'localhost') {
-          return process.env.HOSTNAME;
-        }
-        
-        // Windows
-        if (process.env.COMPUTERNAME && process.env.COMPUTERNAME !== 'localhost') {
-          return process.env.COMPUTERNAME;
-        }
-        
-        // Alternative Windows environment variable
-        if (process.env.USERDOMAIN && process.env.USERDOMAIN !== 'localhost') {
-          return process.env.USERDOMAIN;
-        }
-        
-        // Try USER environment variable
-        if (process.env.USER && process.env.USER !== 'localhost') {
-          return process.env.USER;
-        }
-      }
-      
-      // Method 3: Create a meaningful identifier from Obsidian context
-      let machineId = 'obsidian';
-      
-      // Try to get from vault name
-      if (this.app && this.app.vault) {
-        try {
-          const vaultName = this.app.vault.getName();
-          if (vaultName && vaultName.trim() && vaultName !== 'vault') {
-            // Clean the vault name and use it as machine identifier
-            const cleanName = vaultName.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
-            if (cleanName.length > 0) {
-              machineId = cleanName;
-            }
-          }
-        } catch (vaultError) {
-          console.log('[ObsidianObserver] Could not get vault name:', vaultError);
-        }
-      }
-      
-      // Method 4: Create a unique machine identifier based on available info
-      let identifier = machineId;
-      
-      // Add OS information from navigator
-      if (typeof navigator !== 'undefined' && navigator.platform) {
-        if (navigator.platform.includes('Mac')) {
-          identifier += '-mac';
-        } else if (navigator.platform.includes('Win')) {
-          identifier += '-win';
-        } else if (navigator.platform.includes('Linux')) {
-          identifier += '-linux';
-        }
-      }
-      
-      // Add a unique session identifier
-      const sessionId = Math.random().toString(36).substring(2, 6);
-      const finalId = `${identifier}-${sessionId}`;
-      
-      console.log('[ObsidianObserver] Generated machine identifier:', finalId);
-      return finalId;
-      
+      await this.digestWriter.writeDue();
+      this.settings.lastDigestRun = today;
+      await this.saveSettings();
     } catch (error) {
-      console.warn('[ObsidianObserver] Could not determine hostname:', error);
-      // Generate a unique fallback identifier
-      const fallbackId = Math.random().toString(36).substring(2, 8);
-      return `fallback-${fallbackId}`;
+      console.error('[ObsidianObserver] Error writing scheduled digests:', error);
     }
   }
 
+  private async runScheduledDailyNoteSummary() {
+    if (!this.dailyNoteSummaryWriter || !this.settings.enableDailyNoteSummary) return;
+
+    // Once a day, finish off the previous day's daily note
+    const today = formatLocalDate(new Date());
+    if (this.settings.lastDailyNoteSummary === today) return;
+
+    try {
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+      await this.dailyNoteSummaryWriter.update(yesterday);
+      this.settings.lastDailyNoteSummary = today;
+      await this.saveSettings();
+    } catch (error) {
+      console.error('[ObsidianObserver] Error writing scheduled daily note summary:', error);
+    }
+  }
+
+  private async runScheduledRetention() {
+    if (!this.settings.enableRetention || !this.retentionManager) return;
+
+    // Run at most once per day
+    const lastRun = this.settings.lastRetentionRun ? new Date(this.settings.lastRetentionRun).getTime() : 0;
+    if (Date.now() - lastRun < RETENTION_INTERVAL_MS) return;
+
+    try {
+      const plan = await this.retentionManager.plan();
+      await this.retentionManager.apply(plan);
+      this.settings.lastRetentionRun = new Date().toISOString();
+      await this.saveSettings();
+    } catch (error) {
+      console.error('[ObsidianObserver] Error running scheduled retention:', error);
+    }
+  }
+
+  private async endSession() {
+    // Ending is idempotent, so only the first quit signal logs the session-end event
+    const sessionEndEvent = this.sessionTracker?.end();
+    if (sessionEndEvent && this.logger) {
+      await this.logger.logEvent(sessionEndEvent);
+    }
+  }
+
+  private registerWebhookStatus() {
+    const statusBarItem = this.addStatusBarItem();
+    const render = () => {
+      const status = this.logger.getWebhook().getStatus();
+      statusBarItem.setText(describeWebhookStatus(status));
+      const details = [
+        status.lastDelivery ? `Last delivery: ${new Date(status.lastDelivery).toLocaleString()}` : 'Nothing delivered this session',
+        status.lastError ? `Last error: ${status.lastError}` : ''
+      ];
+      statusBarItem.setAttribute('aria-label', details.filter(line => line).join('\n'));
+    };
+    render();
+    this.register(this.logger.getWebhook().onStatusChange(render));
+  }
+
+  private registerActivityEvents() {
+    const recordActivity = (event: Event) => this.eventHandlers?.recordActivity(event.target);
+    this.registerDomEvent(document, 'keydown', recordActivity);
+    this.registerDomEvent(document, 'mousedown', recordActivity);
+    this.registerDomEvent(document, 'mousemove', recordActivity, { passive: true });
+    // Scroll events do not bubble, so they are captured on the way down
+    this.registerDomEvent(document, 'scroll', recordActivity, { capture: true, passive: true });
+    this.registerDomEvent(document, 'wheel', recordActivity, { passive: true });
+  }
+
   private registerQuitDetectionEvents() {
     // Use Obsidian's proper event registration methods for reliable cleanup
     
@@ -274,6 +626,11 @@ export default class ObsidianObserverPlugin extends Plugin {
       console.log('[ObsidianObserver] Application quitting detected via beforeunload...');
       
       try {
+        // Close the active note and running edit bursts so they are recorded
+        if (this.eventHandlers) {
+          await this.eventHandlers.finishTracking('quit');
+        }
+
         // Log quit event
         if (this.logger) {
           const { generateBase32Guid } = await import('./utils');
@@ -284,7 +641,7 @@ export default class ObsidianObserverPlugin extends Plugin {
             filePath: '',
             fileName: '',
             vaultName: this.app.vault.getName(),
-            hostname: this.getHostname(),
+            hostname: this.deviceIdentity.getHostname(),
             metadata: {
               lastModified: new Date().toISOString(),
               quitMethod: 'beforeunload'
@@ -293,7 +650,9 @@ export default class ObsidianObserverPlugin extends Plugin {
           
           // Log the event and force flush immediately
           await this.logger.logEvent(eventLog);
+          await this.endSession();
           await this.logger.flushBuffer();
+          await this.fileIdentity.save();
         }
       } catch (error) {
         console.error('[ObsidianObserver] Error logging quit event:', error);
@@ -306,6 +665,11 @@ export default class ObsidianObserverPlugin extends Plugin {
         console.log('[ObsidianObserver] Workspace quit event detected...');
         
         try {
+          // Close the active note and running edit bursts so they are recorded
+          if (this.eventHandlers) {
+            await this.eventHandlers.finishTracking('quit');
+          }
+
           if (this.logger) {
             const { generateBase32Guid } = await import('./utils');
             const eventLog = {
@@ -315,7 +679,7 @@ export default class ObsidianObserverPlugin extends Plugin {
               filePath: '',
               fileName: '',
               vaultName: this.app.vault.getName(),
-              hostname: this.getHostname(),
+              hostname: this.deviceIdentity.getHostname(),
               metadata: {
                 lastModified: new Date().toISOString(),
                 quitMethod: 'workspace-quit'
@@ -323,7 +687,9 @@ export default class ObsidianObserverPlugin extends Plugin {
             };
             
             await this.logger.logEvent(eventLog);
+            await this.endSession();
             await this.logger.flushBuffer();
+            await this.fileIdentity.save();
           }
         } catch (error) {
           console.error('[ObsidianObserver] Error logging workspace quit event:', error);
@@ -332,18 +698,150 @@ export default class ObsidianObserverPlugin extends Plugin {
     );
   }
 
+  /**
+   * Asks for the passphrase of the encrypted event log, then writes the events held back while it was locked
+   */
+  promptUnlock(): void {
+    new PassphraseModal(this.app, 'Unlock Event Log', 'The ObsidianObserver event log of this vault is encrypted. Enter its passphrase to record and read events during this session. Events are kept back until then.', false, async (passphrase) => {
+      if (!(await this.cipher.unlock(passphrase))) {
+        new Notice('Wrong passphrase');
+        return false;
+      }
+      await this.logger.unsealLocalCopies();
+      await this.logger.replayJournal();
+      await this.logger.flushBuffer();
+      new Notice('Event log unlocked');
+      this.runScheduledTasks();
+      return true;
+    }).open();
+  }
+
+  /**
+   * Encrypts the event log with a passphrase, or protects an encrypted event log with a new one
+   */
+  promptSetPassphrase(): void {
+    if (!this.ensureUnlocked()) return;
+
+    const rotating = this.cipher.isEnabled();
+    const description = rotating
+      ? 'The key the events are encrypted with is protected with the new passphrase instead. The old passphrase stops working.'
+      : 'Every stored event is encrypted, and so is every new one. The passphrase is not stored anywhere: if it is lost, the events cannot be recovered.';
+    new PassphraseModal(this.app, rotating ? 'Change Passphrase' : 'Encrypt Event Log', description, true, async (passphrase) => {
+      try {
+        if (rotating) {
+          await this.encryptionManager.changePassphrase(passphrase);
+          new Notice('Passphrase changed');
+        } else {
+          const count = await this.encryptionManager.enable(passphrase);
+          this.app.workspace.trigger('file-explorer:refresh');
+          new Notice(`${count} events encrypted`);
+        }
+      } catch (error) {
+        console.error('[ObsidianObserver] Error encrypting events:', error);
+        new Notice('Encryption failed, see the console for details. Run it again to finish encrypting the remaining events.');
+      }
+      return true;
+    }).open();
+  }
+
+  /**
+   * Decrypts every stored event back to plain text and stops encrypting new ones
+   */
+  promptDecryptAll(): void {
+    // Asking for the passphrase again confirms the decryption is intended
+    new PassphraseModal(this.app, 'Decrypt Event Log', 'Every stored event is written back as plain text and new events are no longer encrypted. Enter the passphrase to continue.', false, async (passphrase) => {
+      if (!(await this.cipher.unlock(passphrase))) {
+        new Notice('Wrong passphrase');
+        return false;
+      }
+      try {
+        const count = await this.encryptionManager.decryptAll();
+        this.app.workspace.trigger('file-explorer:refresh');
+        new Notice(`${count} events decrypted`);
+      } catch (error) {
+        console.error('[ObsidianObserver] Error decrypting events:', error);
+        new Notice('Decryption failed, see the console for details. The event log stays encrypted; run it again to finish.');
+      }
+      return true;
+    }).open();
+  }
+
+  isEncryptionEnabled(): boolean {
+    return this.cipher?.isEnabled() ?? false;
+  }
+
+  isEventLogLocked(): boolean {
+    return this.logger?.isLocked() ?? false;
+  }
+
+  // Reading a locked event log would silently leave out every encrypted event
+  private ensureUnlocked(): boolean {
+    if (!this.logger.isLocked()) return true;
+    new Notice('Unlock the encrypted event log first');
+    this.promptUnlock();
+    return false;
+  }
+
+  /**
+   * Opens the activity timeline in the right sidebar, or reveals it if it is already open
+   */
+  async activateTimelineView(): Promise<void> {
+    let leaf = this.app.workspace.getLeavesOfType(TIMELINE_VIEW_TYPE)[0];
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: TIMELINE_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Shows every recorded event of a note, including events under its previous names
+   * @param file The note to show the history of
+   */
+  async showNoteHistory(file: TFile): Promise<void> {
+    try {
+      const events = await this.logger.readEventsWithBuffered();
+      new NoteHistoryModal(this.app, buildNoteHistory(events, file.path)).open();
+    } catch (error) {
+      console.error('[ObsidianObserver] Error loading note history:', error);
+      new Notice('Could not load the history of this note');
+    }
+  }
+
+  /**
+   * Opens the activity heatmap in a new tab, or reveals it if it is already open
+   */
+  async activateHeatmapView(): Promise<void> {
+    let leaf = this.app.workspace.getLeavesOfType(HEATMAP_VIEW_TYPE)[0];
+    if (!leaf) {
+      leaf = this.app.workspace.getLeaf('tab');
+      await leaf.setViewState({ type: HEATMAP_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+  }
+
   async onunload() {
     console.log('[ObsidianObserver] Unloading plugin...');
 
     try {
       // Unregister event handlers
       if (this.eventHandlers) {
+        await this.eventHandlers.finishTracking('unload');
         this.eventHandlers.unregisterEventHandlers();
       }
 
-      // Flush any remaining log entries
+      // End the session and flush any remaining log entries
       if (this.logger) {
+        await this.endSession();
         await this.logger.flushBuffer();
+        // Undelivered webhook events stay queued for the next run
+        this.logger.getWebhook().stop();
+      }
+
+      if (this.fileIdentity) {
+        await this.fileIdentity.save();
       }
 
       console.log('[ObsidianObserver] Plugin unloaded successfully');
@@ -386,6 +884,95 @@ class ObsidianObserverSettingTab extends PluginSettingTab {
           await this.plugin.updateSettings({ eventsFolder: value });
         }));
 
+    // Storage Backend Setting
+    new Setting(containerEl)
+      .setName('Storage Backend')
+      .setDesc('How events are stored. "Markdown notes" writes one note per event (queryable with DataView). "Daily JSONL files" appends events to one file per day in EventsFolder/events, which keeps the vault small. DataView cannot query JSONL files, so the DataView summary notes are only written for markdown notes, and existing ones are kept but only list markdown events. Switching only changes where new events go: events stored before the switch stay where they are and are still read by the timeline, heatmap, note history, digests, export and retention.')
+      .addDropdown(dropdown => dropdown
+        .addOption('markdown', 'Markdown notes')
+        .addOption('jsonl', 'Daily JSONL files')
+        .setValue(this.plugin.settings.storageBackend)
+        .onChange(async (value) => {
+          // Flush pending events to the current backend before switching
+          await this.plugin.flushEvents();
+          await this.plugin.updateSettings({ storageBackend: value as StorageBackend });
+          await this.plugin.createSummaryNotes();
+        }));
+
+    // Edit Burst Window Setting
+    new Setting(containerEl)
+      .setName('Edit Burst Window (seconds)')
+      .setDesc('Consecutive autosaves of the same file are folded into one edit-burst event, which is logged once the file has not changed for this many seconds or loses focus. Set to 0 to log every save separately.')
+      .addText(text => text
+        .setPlaceholder('30')
+        .setValue(String(this.plugin.settings.editBurstWindowSeconds))
+        .onChange(async (value) => {
+          const seconds = parseInt(value, 10);
+          if (!isNaN(seconds) && seconds >= 0) {
+            await this.plugin.updateSettings({ editBurstWindowSeconds: seconds });
+          }
+        }));
+
+    // Idle Threshold Setting
+    new Setting(containerEl)
+      .setName('Idle Threshold (seconds)')
+      .setDesc('Typing, clicking and scrolling in a note count as active editing time, recorded on its close, save and edit-burst events. A pause longer than this many seconds counts as idle. Set to 0 to disable active time tracking.')
+      .addText(text => text
+        .setPlaceholder('120')
+        .setValue(String(this.plugin.settings.idleThresholdSeconds))
+        .onChange(async (value) => {
+          const seconds = parseInt(value, 10);
+          if (!isNaN(seconds) && seconds >= 0) {
+            await this.plugin.updateSettings({ idleThresholdSeconds: seconds });
+          }
+        }));
+
+    // Device Name Setting
+    const deviceIdentity = this.plugin.deviceIdentity;
+    if (deviceIdentity) {
+      new Setting(containerEl)
+        .setName('Device Name')
+        .setDesc(`Friendly name recorded as the hostname for events from this device (ID ${deviceIdentity.getDeviceId()}). Leave empty to use the system hostname "${deviceIdentity.getSystemHostname()}".`)
+        .addText(text => text
+          .setPlaceholder(deviceIdentity.getSystemHostname())
+          .setValue(this.plugin.settings.deviceNames[deviceIdentity.getDeviceId()] || '')
+          .onChange(async (value) => {
+            const deviceNames = { ...this.plugin.settings.deviceNames, [deviceIdentity.getDeviceId()]: value.trim() };
+            if (!value.trim()) {
+              delete deviceNames[deviceIdentity.getDeviceId()];
+            }
+            await this.plugin.updateSettings({ deviceNames });
+          }));
+    }
+
+    // Buffer Size Setting
+    new Setting(containerEl)
+      .setName('Buffer Size')
+      .setDesc('Number of buffered events that triggers a write to storage. Every event is journaled locally until it is written, so unflushed events are replayed after a crash.')
+      .addText(text => text
+        .setPlaceholder('3')
+        .setValue(String(this.plugin.settings.maxBufferSize))
+        .onChange(async (value) => {
+          const size = parseInt(value, 10);
+          if (!isNaN(size) && size >= 1) {
+            await this.plugin.updateSettings({ maxBufferSize: size });
+          }
+        }));
+
+    // Flush Interval Setting
+    new Setting(containerEl)
+      .setName('Flush Interval (seconds)')
+      .setDesc('Write buffered events at most this many seconds after they are logged, even if the buffer is not full. Set to 0 to flush only when the buffer is full or Obsidian quits.')
+      .addText(text => text
+        .setPlaceholder('10')
+        .setValue(String(this.plugin.settings.flushIntervalSeconds))
+        .onChange(async (value) => {
+          const seconds = parseInt(value, 10);
+          if (!isNaN(seconds) && seconds >= 0) {
+            await this.plugin.updateSettings({ flushIntervalSeconds: seconds });
+          }
+        }));
+
     // Enable Console Log Setting
     new Setting(containerEl)
       .setName('Enable Console Logging')
@@ -396,6 +983,14 @@ class ObsidianObserverSettingTab extends PluginSettingTab {
           await this.plugin.updateSettings({ enableConsoleLog: value });
         }));
 
+    this.displayFilterRules(containerEl);
+    this.displayPrivacyRules(containerEl);
+    this.displayRetention(containerEl);
+    this.displayDigests(containerEl);
+    this.displayDailyNoteSummary(containerEl);
+    this.displayEncryption(containerEl);
+    this.displayWebhook(containerEl);
+
     // Reset to Defaults Button
     new Setting(containerEl)
       .setName('Reset to Defaults')
@@ -404,9 +999,373 @@ class ObsidianObserverSettingTab extends PluginSettingTab {
         .setButtonText('Reset')
         .setWarning()
         .onClick(async () => {
-          this.plugin.settings = { ...DEFAULT_SETTINGS };
-          await this.plugin.saveSettings();
+          await this.plugin.resetSettings();
           this.display(); // Refresh the settings display
         }));
   }
+
+  private displayDigests(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Digests' });
+
+    new Setting(containerEl)
+      .setName('Daily Digest')
+      .setDesc('After each day, write a digest note to EventsFolder/digests listing notes created, most-edited notes, renames, deletions, active time by folder and devices used. Digests are static snapshots that stay readable without Dataview and after events are pruned. Not written while the event log is encrypted.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableDailyDigest)
+        .onChange(async (value) => {
+          await this.plugin.updateSettings({ enableDailyDigest: value });
+        }));
+
+    new Setting(containerEl)
+      .setName('Weekly Digest')
+      .setDesc('After each week (Monday to Sunday), write a digest note for the whole week, named after its ISO week, e.g. 2026-W42.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableWeeklyDigest)
+        .onChange(async (value) => {
+          await this.plugin.updateSettings({ enableWeeklyDigest: value });
+        }));
+  }
+
+  private displayDailyNoteSummary(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Daily Notes' });
+
+    new Setting(containerEl)
+      .setName('Add Activity Summary to Daily Notes')
+      .setDesc('After each day, insert or refresh a "What I worked on" section in that day\'s daily note, listing notes created, notes edited with edit counts, and time spent. The section is bounded by markers, so it is regenerated without touching the rest of the note. Uses the folder and date format of the core Daily Notes plugin. Use the "Update Today\'s Daily Note Summary" command to refresh it on demand. Not written while the event log is encrypted.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableDailyNoteSummary)
+        .onChange(async (value) => {
+          await this.plugin.updateSettings({ enableDailyNoteSummary: value });
+        }));
+  }
+
+  private displayWebhook(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Webhook' });
+    containerEl.createEl('p', {
+      text: 'Forward events to an HTTP endpoint, e.g. to collect events from several vaults centrally. Once events are written to the vault they are POSTed as JSON, { "sentAt": ..., "events": [...] }, after the privacy rules were applied; aggregate-only events are never sent. Undelivered events are queued on this device while offline and retried with increasing delays. A batch the endpoint rejects as invalid (HTTP 400, 413 or 422) is dropped; other client errors, such as a wrong token or URL, pause delivery until these settings change. The status bar shows the delivery status. Delivery never holds up local logging. Headers and token are stored in the plugin settings.',
+      cls: 'setting-item-description'
+    });
+
+    const updateWebhook = async (changes: Partial<PluginSettings['webhook']>) => {
+      await this.plugin.updateSettings({ webhook: { ...this.plugin.settings.webhook, ...changes } });
+    };
+
+    new Setting(containerEl)
+      .setName('Enable Webhook')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.webhook.enabled)
+        .onChange(async (value) => {
+          await updateWebhook({ enabled: value });
+        }));
+
+    new Setting(containerEl)
+      .setName('URL')
+      .setDesc('Endpoint that receives the events, e.g. http://localhost:8080/events')
+      .addText(text => text
+        .setPlaceholder('https://example.com/events')
+        .setValue(this.plugin.settings.webhook.url)
+        .onChange(async (value) => {
+          await updateWebhook({ url: value.trim() });
+        }));
+
+    new Setting(containerEl)
+      .setName('Auth Token')
+      .setDesc('Sent as "Authorization: Bearer <token>". Leave empty to send no Authorization header.')
+      .addText(text => {
+        text.inputEl.type = 'password';
+        text
+          .setValue(this.plugin.settings.webhook.authToken)
+          .onChange(async (value) => {
+            await updateWebhook({ authToken: value.trim() });
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Headers')
+      .setDesc('Extra request headers, one per line as "Name: value".')
+      .addTextArea(text => text
+        .setPlaceholder('X-Team: research')
+        .setValue(formatWebhookHeaders(this.plugin.settings.webhook.headers))
+        .onChange(async (value) => {
+          await updateWebhook({ headers: parseWebhookHeaders(value) });
+        }));
+
+    new Setting(containerEl)
+      .setName('Batch Size')
+      .setDesc('Most events sent in one request.')
+      .addText(text => text
+        .setPlaceholder('100')
+        .setValue(String(this.plugin.settings.webhook.batchSize))
+        .onChange(async (value) => {
+          const batchSize = parseInt(value, 10);
+          if (!isNaN(batchSize) && batchSize > 0) {
+            await updateWebhook({ batchSize });
+          }
+        }));
+  }
+
+  private displayEncryption(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Encryption' });
+
+    const enabled = this.plugin.isEncryptionEnabled();
+    const locked = this.plugin.isEventLogLocked();
+    containerEl.createEl('p', {
+      text: 'Encrypts stored events with AES-GCM, using a key derived from a passphrase. The passphrase is asked for once per session and never stored; events logged before it is entered are kept back until then. Plugin views, reports and exports read encrypted events once unlocked, but Dataview queries over the event notes cannot. The journal of unwritten events and the webhook queue are encrypted too; events logged while locked are only held in memory until the event log is unlocked. While encryption is on, digests and daily note sections are not written and roll-ups keep counts by day, type and device but no file names. Still plain text: digests, daily note sections and roll-ups written before encryption was turned on, exports you save, and events sent to a webhook, which receives them decrypted.',
+      cls: 'setting-item-description'
+    });
+
+    const status = new Setting(containerEl)
+      .setName('Status')
+      .setDesc(!enabled ? 'Events are stored as plain text.' : locked ? 'Encrypted and locked.' : 'Encrypted and unlocked for this session.');
+
+    if (!enabled) {
+      status.addButton(button => button
+        .setButtonText('Encrypt Event Log')
+        .setCta()
+        .onClick(() => this.plugin.promptSetPassphrase()));
+      return;
+    }
+
+    if (locked) {
+      status.addButton(button => button
+        .setButtonText('Unlock')
+        .setCta()
+        .onClick(() => this.plugin.promptUnlock()));
+    }
+    status
+      .addButton(button => button
+        .setButtonText('Change Passphrase')
+        .onClick(() => this.plugin.promptSetPassphrase()))
+      .addButton(button => button
+        .setButtonText('Decrypt Event Log')
+        .setWarning()
+        .onClick(() => this.plugin.promptDecryptAll()));
+  }
+
+  private displayRetention(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Retention' });
+
+    new Setting(containerEl)
+      .setName('Enable Scheduled Retention')
+      .setDesc('Once a day, compact events older than their retention period into per-day roll-ups in EventsFolder/rollups and delete the raw events. Use the "Apply Retention Policy" command for a dry-run preview.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableRetention)
+        .onChange(async (value) => {
+          await this.plugin.updateSettings({ enableRetention: value });
+        }));
+
+    new Setting(containerEl)
+      .setName('Maximum Raw Events')
+      .setDesc('Keep at most this many raw events; the oldest are deleted and rolled up. Set to 0 for no limit.')
+      .addText(text => text
+        .setPlaceholder('0')
+        .setValue(String(this.plugin.settings.maxLogEntries))
+        .onChange(async (value) => {
+          const count = parseInt(value, 10);
+          if (!isNaN(count) && count >= 0) {
+            await this.plugin.updateSettings({ maxLogEntries: count });
+          }
+        }));
+
+    const updateRule = async (index: number, changes: Partial<RetentionRule>) => {
+      const retentionRules = this.plugin.settings.retentionRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule);
+      await this.plugin.updateSettings({ retentionRules });
+    };
+
+    this.plugin.settings.retentionRules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setName(rule.eventType === '*' ? 'All other events' : `${rule.eventType} events`)
+        .setDesc('Days to keep raw events (0 keeps them forever).')
+        .addDropdown(dropdown => {
+          dropdown.addOption('*', 'All other events');
+          EVENT_TYPES.forEach(type => dropdown.addOption(type, type));
+          dropdown
+            .setValue(rule.eventType)
+            .onChange(async (value) => {
+              await updateRule(index, { eventType: value as EventType | '*' });
+              this.display();
+            });
+        })
+        .addText(text => text
+          .setPlaceholder('0')
+          .setValue(String(rule.maxAgeDays))
+          .onChange(async (value) => {
+            const days = parseInt(value, 10);
+            if (!isNaN(days) && days >= 0) {
+              await updateRule(index, { maxAgeDays: days });
+            }
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Remove rule')
+          .onClick(async () => {
+            await this.plugin.updateSettings({ retentionRules: this.plugin.settings.retentionRules.filter((_, i) => i !== index) });
+            this.display();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add Retention Rule')
+        .onClick(async () => {
+          const newRule: RetentionRule = { eventType: 'open', maxAgeDays: 30 };
+          await this.plugin.updateSettings({ retentionRules: [...this.plugin.settings.retentionRules, newRule] });
+          this.display();
+        }));
+  }
+
+  private displayPrivacyRules(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Privacy Rules' });
+    containerEl.createEl('p', {
+      text: 'Limit what is recorded about matching files. Rules use the same patterns as the include/exclude rules and the first match wins. Hash replaces the path with a salted hash, Top-level folder records only the top-level folder, and Aggregate only counts events in the daily roll-ups without writing individual events. Redacted events never name or link the file. When an event involves several paths, such as a rename, the most restrictive level applies.',
+      cls: 'setting-item-description'
+    });
+
+    const updateRule = async (index: number, changes: Partial<PrivacyRule>) => {
+      const privacyRules = this.plugin.settings.privacyRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule);
+      await this.plugin.updateSettings({ privacyRules });
+    };
+
+    this.plugin.settings.privacyRules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setName(`Privacy Rule ${index + 1}`)
+        .addDropdown(dropdown => dropdown
+          .addOption('path', 'Path')
+          .addOption('tag', 'Tag')
+          .addOption('property', 'Property')
+          .setValue(rule.target)
+          .onChange(async (value) => {
+            await updateRule(index, { target: value as FilterRuleTarget });
+          }))
+        .addText(text => text
+          .setPlaceholder('HR/ or #personal or private: true')
+          .setValue(rule.pattern)
+          .onChange(async (value) => {
+            await updateRule(index, { pattern: value });
+          }))
+        .addDropdown(dropdown => dropdown
+          .addOption('full', 'Record everything')
+          .addOption('hash', 'Hash the path')
+          .addOption('top-folder', 'Top-level folder only')
+          .addOption('aggregate', 'Aggregate counts only')
+          .setValue(rule.level)
+          .onChange(async (value) => {
+            await updateRule(index, { level: value as PrivacyLevel });
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Remove rule')
+          .onClick(async () => {
+            await this.plugin.updateSettings({ privacyRules: this.plugin.settings.privacyRules.filter((_, i) => i !== index) });
+            this.display();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add Privacy Rule')
+        .onClick(async () => {
+          const newRule: PrivacyRule = { target: 'path', pattern: '', level: 'hash' };
+          await this.plugin.updateSettings({ privacyRules: [...this.plugin.settings.privacyRules, newRule] });
+          this.display();
+        }));
+  }
+
+  private displayFilterRules(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Include / Exclude Rules' });
+    containerEl.createEl('p', {
+      text: 'Rules are checked in order and the first match decides whether a file is recorded. Path patterns are globs: * matches within a folder, ** across folders, a trailing / matches a whole folder, and patterns without / match the file name. Tag rules match a tag and its nested tags. Property rules match "key: value" or just "key". When include rules exist, only files they match are recorded. The events folder and .obsidian are always excluded.',
+      cls: 'setting-item-description'
+    });
+
+    const rules = this.plugin.settings.filterRules;
+    const updateRule = async (index: number, changes: Partial<FilterRule>) => {
+      // Replace rather than mutate so the default rule list is never modified
+      const filterRules = this.plugin.settings.filterRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule);
+      await this.plugin.updateSettings({ filterRules });
+    };
+
+    rules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setName(`Rule ${index + 1}`)
+        .addDropdown(dropdown => dropdown
+          .addOption('exclude', 'Exclude')
+          .addOption('include', 'Include')
+          .setValue(rule.action)
+          .onChange(async (value) => {
+            await updateRule(index, { action: value as FilterRuleAction });
+          }))
+        .addDropdown(dropdown => dropdown
+          .addOption('path', 'Path')
+          .addOption('tag', 'Tag')
+          .addOption('property', 'Property')
+          .setValue(rule.target)
+          .onChange(async (value) => {
+            await updateRule(index, { target: value as FilterRuleTarget });
+          }))
+        .addText(text => text
+          .setPlaceholder('Journal/ or #private or observer: false')
+          .setValue(rule.pattern)
+          .onChange(async (value) => {
+            await updateRule(index, { pattern: value });
+          }))
+        .addText(text => text
+          .setPlaceholder('All event types')
+          .setValue(rule.eventTypes.join(', '))
+          .onChange(async (value) => {
+            const eventTypes = value.split(',')
+              .map(type => type.trim())
+              .filter((type): type is EventType => (EVENT_TYPES as readonly string[]).includes(type));
+            await updateRule(index, { eventTypes });
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Remove rule')
+          .onClick(async () => {
+            await this.plugin.updateSettings({ filterRules: this.plugin.settings.filterRules.filter((_, i) => i !== index) });
+            this.display();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add Rule')
+        .onClick(async () => {
+          const newRule: FilterRule = { action: 'exclude', target: 'path', pattern: '', eventTypes: [] };
+          await this.plugin.updateSettings({ filterRules: [...this.plugin.settings.filterRules, newRule] });
+          this.display();
+        }));
+
+    // Preview which rule decides a path
+    let testPath = '';
+    let testEventType: EventType = 'open';
+    const testSetting = new Setting(containerEl)
+      .setName('Test a Path')
+      .setDesc('Enter a vault path to see which rule matches it.');
+    const resultEl = containerEl.createEl('p', { cls: 'setting-item-description' });
+    const showResult = () => {
+      if (!testPath.trim()) {
+        resultEl.setText('');
+        return;
+      }
+      const result = new FileFilter(this.app, this.plugin.getLoggerConfig()).evaluate(testPath.trim(), testEventType);
+      resultEl.setText(`${result.excluded ? 'Excluded' : 'Recorded'} — ${result.reason}`);
+    };
+    testSetting
+      .addText(text => text
+        .setPlaceholder('Folder/Note.md')
+        .onChange((value) => {
+          testPath = value;
+          showResult();
+        }))
+      .addDropdown(dropdown => {
+        EVENT_TYPES.forEach(type => dropdown.addOption(type, type));
+        dropdown
+          .setValue(testEventType)
+          .onChange((value) => {
+            testEventType = value as EventType;
+            showResult();
+          });
+      });
+  }
 }
@@ -0,0 +1,129 @@
+import { CachedMetadata, getAllTags, parseFrontMatterAliases } from 'obsidian';
+import { MetadataDiff, PropertyChange } from './types';
+
+// Keys covered by the tag and alias diffs, or internal to the metadata cache
+const IGNORED_PROPERTIES = ['tags', 'tag', 'aliases', 'alias', 'position'];
+
+/**
+ * The parts of a note's metadata that are tracked for changes
+ */
+export interface MetadataSnapshot {
+  tags: string[];
+  aliases: string[];
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Captures the tags, aliases and frontmatter properties of a note
+ * @param cache The note's metadata from the metadata cache
+ */
+export function takeMetadataSnapshot(cache: CachedMetadata | null): MetadataSnapshot {
+  const frontmatter = cache?.frontmatter || {};
+  const properties: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (!IGNORED_PROPERTIES.includes(key.toLowerCase())) {
+      properties[key] = value;
+    }
+  }
+
+  return {
+    tags: Array.from(new Set(cache ? getAllTags(cache) || [] : [])).sort(),
+    aliases: (parseFrontMatterAliases(frontmatter) || []).slice().sort(),
+    properties
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '(none)';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Compares two snapshots of a note's metadata
+ * @returns The differences, or null when nothing tracked changed
+ */
+export function diffMetadata(before: MetadataSnapshot, after: MetadataSnapshot): MetadataDiff | null {
+  const diff: MetadataDiff = {
+    tagsAdded: after.tags.filter(tag => !before.tags.includes(tag)),
+    tagsRemoved: before.tags.filter(tag => !after.tags.includes(tag)),
+    aliasesAdded: after.aliases.filter(alias => !before.aliases.includes(alias)),
+    aliasesRemoved: before.aliases.filter(alias => !after.aliases.includes(alias)),
+    properties: {}
+  };
+
+  const keys = new Set([...Object.keys(before.properties), ...Object.keys(after.properties)]);
+  for (const key of keys) {
+    if (!sameValue(before.properties[key], after.properties[key])) {
+      const change: PropertyChange = {};
+      if (key in before.properties) change.before = before.properties[key];
+      if (key in after.properties) change.after = after.properties[key];
+      diff.properties[key] = change;
+    }
+  }
+
+  const changed = diff.tagsAdded.length + diff.tagsRemoved.length + diff.aliasesAdded.length +
+    diff.aliasesRemoved.length + Object.keys(diff.properties).length;
+  return changed > 0 ? diff : null;
+}
+
+/**
+ * Describes a metadata diff in one line, e.g. "tag #project/alpha added; status: draft → published"
+ */
+export function describeMetadataDiff(diff: MetadataDiff): string {
+  const parts: string[] = [];
+  diff.tagsAdded.forEach(tag => parts.push(`tag ${tag} added`));
+  diff.tagsRemoved.forEach(tag => parts.push(`tag ${tag} removed`));
+  diff.aliasesAdded.forEach(alias => parts.push(`alias "${alias}" added`));
+  diff.aliasesRemoved.forEach(alias => parts.push(`alias "${alias}" removed`));
+  for (const [key, change] of Object.entries(diff.properties)) {
+    if (!('before' in change)) {
+      parts.push(`${key} set to ${formatValue(change.after)}`);
+    } else if (!('after' in change)) {
+      parts.push(`${key} removed (was ${formatValue(change.before)})`);
+    } else {
+      parts.push(`${key}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+    }
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Remembers the last known metadata of every note, since the metadata cache only
+ * offers the new state once a note has changed
+ */
+export class MetadataChangeTracker {
+  private snapshots = new Map<string, MetadataSnapshot>();
+
+  remember(path: string, cache: CachedMetadata | null): void {
+    this.snapshots.set(path, takeMetadataSnapshot(cache));
+  }
+
+  /**
+   * Compares a note's new metadata against its last known state and makes it the new baseline
+   * @param path The note path
+   * @param cache The note's updated metadata
+   * @returns The differences, or null when there is no baseline or nothing tracked changed
+   */
+  update(path: string, cache: CachedMetadata | null): MetadataDiff | null {
+    const previous = this.snapshots.get(path);
+    const current = takeMetadataSnapshot(cache);
+    this.snapshots.set(path, current);
+    return previous ? diffMetadata(previous, current) : null;
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const snapshot = this.snapshots.get(oldPath);
+    if (snapshot) {
+      this.snapshots.delete(oldPath);
+      this.snapshots.set(newPath, snapshot);
+    }
+  }
+
+  forget(path: string): void {
+    this.snapshots.delete(path);
+  }
+}
@@ -0,0 +1,388 @@
+import { App, Modal, Setting, TFile, normalizePath, parseYaml } from 'obsidian';
+import { EventLogger } from './logger';
+import { EventFrontmatter, EventType, EVENT_SCHEMA_VERSION, EVENT_TYPES } from './types';
+import { deriveBase32Guid, formatLocalDate, generateBase32Guid, toLocalTimestamp } from './utils';
+
+// Folder the pre-OOEvent versions of the plugin logged to
+const LEGACY_EVENTS_FOLDER = '_debug/events';
+
+// Event types whose size describes the content; older versions recorded it on every event
+const FILE_SIZE_EVENT_TYPES: string[] = ['create', 'save', 'edit-burst'];
+
+export type LegacySchema = 'legacy-note' | 'legacy-log'; // One note per event, or a table of events in a log note
+
+/**
+ * A legacy note and the events converted from it
+ */
+export interface LegacyConversion {
+  path: string;
+  schema: LegacySchema;
+  records: EventFrontmatter[];
+  skipped: number; // Rows or notes that could not be converted, e.g. unknown event types
+}
+
+/**
+ * The outcome of a dry run: what migrating would change
+ */
+export interface MigrationPlan {
+  totalEvents: number;
+  currentEvents: number;
+  upgrades: EventFrontmatter[]; // Unversioned events, already rewritten to the current layout
+  upgradeChanges: Record<string, number>; // Description of each change and how many events it affects
+  conversions: LegacyConversion[];
+}
+
+/**
+ * The outcome of applying a migration plan
+ */
+export interface MigrationResult {
+  upgraded: number;
+  converted: number;
+  backupFolder?: string;
+}
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+/**
+ * Rewrites an unversioned OOEvent record to the current layout
+ * @param record The stored record
+ * @param changes Receives a description of each change made
+ * @returns The upgraded record
+ */
+export function upgradeEventRecord(record: EventFrontmatter, changes: string[] = []): EventFrontmatter {
+  // Keep only event fields; markdown frontmatter also carries aliases, tags and type
+  const upgraded = {} as EventFrontmatter;
+  for (const [key, value] of Object.entries(record)) {
+    if (key.startsWith('OOEvent_')) {
+      (upgraded as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  if (upgraded.OOEvent_FileSize !== undefined && !FILE_SIZE_EVENT_TYPES.includes(upgraded.OOEvent_Type)) {
+    delete upgraded.OOEvent_FileSize;
+    changes.push(`Removed OOEvent_FileSize from ${upgraded.OOEvent_Type} events`);
+  }
+  if (!upgraded.OOEvent_PluginVersion) {
+    upgraded.OOEvent_PluginVersion = 'unknown';
+    changes.push('Added missing OOEvent_PluginVersion');
+  }
+  if (!upgraded.OOEvent_LocalTimestamp) {
+    upgraded.OOEvent_LocalTimestamp = toLocalTimestamp(upgraded.OOEvent_Timestamp);
+    changes.push('Added missing OOEvent_LocalTimestamp');
+  }
+  if (!upgraded.OOEvent_Created) {
+    upgraded.OOEvent_Created = upgraded.OOEvent_Timestamp;
+    changes.push('Added missing OOEvent_Created');
+  }
+
+  upgraded.OOEvent_SchemaVersion = EVENT_SCHEMA_VERSION;
+  changes.push(`Set OOEvent_SchemaVersion to ${EVENT_SCHEMA_VERSION}`);
+  return upgraded;
+}
+
+/**
+ * Converts one legacy event (EventType, FileName, FilePath, Vault, Time, Modified) to the current layout
+ * @param fields The legacy fields
+ * @param guid GUID of the converted event
+ * @returns The converted record, or null when the event type or time is not recognised
+ */
+export function convertLegacyEvent(fields: Record<string, unknown>, guid: string = generateBase32Guid()): EventFrontmatter | null {
+  const eventType = String(fields.EventType || '').trim().toLowerCase();
+  const time = new Date(String(fields.Time || ''));
+  if (!(EVENT_TYPES as readonly string[]).includes(eventType) || isNaN(time.getTime())) {
+    return null;
+  }
+
+  const fileName = String(fields.FileName || '').trim();
+  const filePath = String(fields.FilePath || fileName).replace(/`/g, '').trim();
+  const modified = fields.Modified ? new Date(String(fields.Modified)) : null;
+  const timestamp = time.toISOString();
+
+  return {
+    OOEvent_GUID: guid,
+    OOEvent_SchemaVersion: EVENT_SCHEMA_VERSION,
+    OOEvent_Timestamp: timestamp,
+    OOEvent_LocalTimestamp: toLocalTimestamp(timestamp),
+    OOEvent_Timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    OOEvent_Type: eventType as EventType,
+    OOEvent_FilePath: filePath,
+    OOEvent_FileName: fileName,
+    OOEvent_VaultName: String(fields.Vault || '').trim(),
+    OOEvent_Hostname: 'unknown',
+    OOEvent_LastModified: modified && !isNaN(modified.getTime()) ? modified.toISOString() : '',
+    OOEvent_Created: new Date().toISOString(),
+    OOEvent_PluginVersion: 'legacy'
+  };
+}
+
+/**
+ * Reads the rows of the event table in a legacy event log note
+ * @param content The note content
+ * @returns One field map per table row, keyed by column header
+ */
+export function parseLegacyLogTable(content: string): Record<string, string>[] {
+  const rows: Record<string, string>[] = [];
+  let headers: string[] | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim().startsWith('|')) {
+      headers = null;
+      continue;
+    }
+
+    const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+    if (!headers) {
+      // Only tables with an EventType column hold events
+      headers = cells.includes('EventType') ? cells : [];
+    } else if (headers.length > 0 && !cells.every(cell => /^:?-+:?$/.test(cell))) {
+      const row: Record<string, string> = {};
+      headers.forEach((header, index) => { row[header] = cells[index] || ''; });
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Upgrades stored events to the current schema version and converts legacy
+ * _debug/events notes into events in the active storage backend
+ */
+export class EventMigrator {
+  private app: App;
+  private logger: EventLogger;
+
+  constructor(app: App, logger: EventLogger) {
+    this.app = app;
+    this.logger = logger;
+  }
+
+  /**
+   * Scans stored events and legacy notes, without changing anything
+   */
+  async plan(): Promise<MigrationPlan> {
+    const events = await this.logger.readEvents();
+    const upgrades: EventFrontmatter[] = [];
+    const upgradeChanges: Record<string, number> = {};
+
+    for (const event of events) {
+      if (Number(event.OOEvent_SchemaVersion) >= EVENT_SCHEMA_VERSION) continue;
+
+      const changes: string[] = [];
+      upgrades.push(upgradeEventRecord(event, changes));
+      changes.forEach(change => increment(upgradeChanges, change));
+    }
+
+    return {
+      totalEvents: events.length,
+      currentEvents: events.length - upgrades.length,
+      upgrades,
+      upgradeChanges,
+      conversions: await this.findLegacyNotes()
+    };
+  }
+
+  /**
+   * Applies a migration plan, optionally backing up every affected file first
+   * @param plan A plan returned by plan()
+   * @param backup Copy affected files to EventsFolder/backups before changing them
+   */
+  async apply(plan: MigrationPlan, backup: boolean): Promise<MigrationResult> {
+    const result: MigrationResult = { upgraded: 0, converted: 0 };
+
+    if (backup) {
+      const sources = new Set<string>(plan.upgrades.flatMap(record => this.getStoragePaths(record)));
+      plan.conversions.forEach(conversion => sources.add(conversion.path));
+      result.backupFolder = await this.backupFiles(Array.from(sources));
+    }
+
+    // Upgraded events replace the stored ones in place under the same GUID, so an
+    // interrupted migration leaves each event in either its old or its upgraded form
+    if (plan.upgrades.length > 0) {
+      await this.logger.rewriteEvents(plan.upgrades);
+      result.upgraded = plan.upgrades.length;
+    }
+
+    // Legacy notes are only removed once their events have been written. Converted
+    // events have GUIDs derived from their note and row, so converting a note again
+    // after its deletion failed replaces them instead of adding duplicates.
+    const rules = await Promise.all(plan.conversions.map(conversion => this.logger.applyRules(conversion.records)));
+    const kept = rules.flatMap(result => result.kept);
+    if (kept.length > 0) {
+      await this.logger.rewriteEvents(kept);
+    }
+
+    for (let i = 0; i < plan.conversions.length; i++) {
+      const conversion = plan.conversions[i];
+      try {
+        const file = this.app.vault.getAbstractFileByPath(conversion.path);
+        if (file instanceof TFile) {
+          await this.app.vault.delete(file);
+        }
+        // Counted only once the note is gone, so a retried conversion does not count them twice
+        this.logger.countAggregates(rules[i].aggregated);
+        result.converted += conversion.records.length;
+      } catch (error) {
+        console.error(`[ObsidianObserver] Error removing converted legacy note ${conversion.path}:`, error);
+      }
+    }
+
+    console.log(`[ObsidianObserver] Migration applied: ${result.upgraded} events upgraded, ${result.converted} legacy events converted`);
+    return result;
+  }
+
+  private async findLegacyNotes(): Promise<LegacyConversion[]> {
+    const eventsFolder = this.logger.getConfig().eventsFolder;
+    const backupsFolder = `${eventsFolder}/backups/`;
+    const conversions: LegacyConversion[] = [];
+
+    const candidates = this.app.vault.getMarkdownFiles().filter(file =>
+      (file.path.startsWith(`${LEGACY_EVENTS_FOLDER}/`) || file.path.startsWith(`${eventsFolder}/`)) &&
+      !file.path.startsWith(backupsFolder));
+
+    for (const file of candidates) {
+      try {
+        const content = await this.app.vault.cachedRead(file);
+        const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || (match ? parseYaml(match[1]) : null);
+        if (!frontmatter || frontmatter.OOEvent_GUID) continue;
+
+        if (frontmatter.type === 'event-log') {
+          const rows = parseLegacyLogTable(content);
+          const records: EventFrontmatter[] = [];
+          for (let index = 0; index < rows.length; index++) {
+            const record = convertLegacyEvent(rows[index], await deriveBase32Guid(`${file.path}#${index}`));
+            if (record) records.push(record);
+          }
+          conversions.push({ path: file.path, schema: 'legacy-log', records, skipped: rows.length - records.length });
+        } else if (frontmatter.EventType) {
+          const record = convertLegacyEvent(frontmatter, await deriveBase32Guid(file.path));
+          conversions.push({ path: file.path, schema: 'legacy-note', records: record ? [record] : [], skipped: record ? 0 : 1 });
+        }
+      } catch (error) {
+        console.warn(`[ObsidianObserver] Could not read ${file.path} while scanning for legacy events:`, error);
+      }
+    }
+
+    return conversions;
+  }
+
+  /**
+   * The files an event may be stored in: events written before a backend switch stay in the other backend
+   */
+  private getStoragePaths(record: EventFrontmatter): string[] {
+    const eventsFolder = this.logger.getConfig().eventsFolder;
+    return [
+      `${eventsFolder}/events/${formatLocalDate(new Date(record.OOEvent_Timestamp))}.jsonl`,
+      `${eventsFolder}/events/${record.OOEvent_GUID}.md`
+    ];
+  }
+
+  private async backupFiles(paths: string[]): Promise<string> {
+    const adapter = this.app.vault.adapter;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupFolder = normalizePath(`${this.logger.getConfig().eventsFolder}/backups/migration-${stamp}`);
+
+    for (const path of paths) {
+      if (!(await adapter.exists(path))) continue;
+
+      const target = `${backupFolder}/${path}`;
+      const folder = target.substring(0, target.lastIndexOf('/'));
+      if (!(await adapter.exists(folder))) {
+        await adapter.mkdir(folder);
+      }
+      await adapter.write(target, await adapter.read(path));
+    }
+
+    console.log(`[ObsidianObserver] Backed up ${paths.length} files to ${backupFolder}`);
+    return backupFolder;
+  }
+}
+
+/**
+ * Shows a dry-run report of the migration and applies it on confirmation
+ */
+export class MigrationPreviewModal extends Modal {
+  private plan: MigrationPlan;
+  private onApply: (backup: boolean) => Promise<void>;
+  private backup = true;
+
+  constructor(app: App, plan: MigrationPlan, onApply: (backup: boolean) => Promise<void>) {
+    super(app);
+    this.plan = plan;
+    this.onApply = onApply;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Migrate Event Notes' });
+
+    const legacyEvents = this.plan.conversions.reduce((total, conversion) => total + conversion.records.length, 0);
+    const skipped = this.plan.conversions.reduce((total, conversion) => total + conversion.skipped, 0);
+    if (this.plan.upgrades.length === 0 && legacyEvents === 0) {
+      contentEl.createEl('p', { text: `Nothing to migrate. All ${this.plan.totalEvents} events use schema version ${EVENT_SCHEMA_VERSION}.` });
+      return;
+    }
+
+    contentEl.createEl('p', {
+      text: `${this.plan.currentEvents} of ${this.plan.totalEvents} stored events are already at schema version ${EVENT_SCHEMA_VERSION}.`
+    });
+
+    if (this.plan.upgrades.length > 0) {
+      contentEl.createEl('h3', { text: `${this.plan.upgrades.length} events to upgrade` });
+      const table = contentEl.createEl('table');
+      const header = table.createEl('tr');
+      header.createEl('th', { text: 'Change' });
+      header.createEl('th', { text: 'Events' });
+      Object.entries(this.plan.upgradeChanges)
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([change, count]) => {
+          const row = table.createEl('tr');
+          row.createEl('td', { text: change });
+          row.createEl('td', { text: String(count) });
+        });
+    }
+
+    if (this.plan.conversions.length > 0) {
+      contentEl.createEl('h3', { text: `${legacyEvents} legacy events to convert` });
+      const table = contentEl.createEl('table');
+      const header = table.createEl('tr');
+      header.createEl('th', { text: 'Legacy Note' });
+      header.createEl('th', { text: 'Format' });
+      header.createEl('th', { text: 'Events' });
+      this.plan.conversions.forEach(conversion => {
+        const row = table.createEl('tr');
+        row.createEl('td', { text: conversion.path });
+        row.createEl('td', { text: conversion.schema === 'legacy-log' ? 'Event log table' : 'Event note' });
+        row.createEl('td', { text: conversion.skipped > 0 ? `${conversion.records.length} (${conversion.skipped} skipped)` : String(conversion.records.length) });
+      });
+      contentEl.createEl('p', {
+        text: `Converted legacy notes are deleted after their events are written.${skipped > 0 ? ` ${skipped} entries with an unknown event type or time will be dropped.` : ''}`
+      });
+    }
+
+    new Setting(contentEl)
+      .setName('Back up first')
+      .setDesc('Copy every affected file to the backups folder inside the events directory before migrating')
+      .addToggle(toggle => toggle
+        .setValue(this.backup)
+        .onChange(value => { this.backup = value; }));
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+    const applyButton = buttons.createEl('button', { text: 'Migrate', cls: 'mod-warning' });
+    applyButton.addEventListener('click', async () => {
+      applyButton.disabled = true;
+      await this.onApply(this.backup);
+      this.close();
+    });
+    const cancelButton = buttons.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,151 @@
+import { App, Modal } from 'obsidian';
+import { EventFrontmatter } from './types';
+
+const EDIT_EVENT_TYPES: string[] = ['save', 'edit-burst'];
+
+/**
+ * The event history of one note, across all the paths it has had
+ */
+export interface NoteHistory {
+  path: string;
+  previousPaths: string[]; // Earlier paths, most recent first
+  events: EventFrontmatter[]; // Newest first
+  firstSeen?: string;
+  lastEdit?: string;
+  totalEdits: number;
+  devices: Record<string, number>; // Events per host
+}
+
+/**
+ * Collects the events of a note, following renames backwards so events recorded
+ * under previous names are included. The chain stops at the note's create event,
+ * since earlier events at the same path belong to a different note.
+ * @param events All stored events, in any order
+ * @param path The current path of the note
+ * @returns The note's history
+ */
+export function buildNoteHistory(events: EventFrontmatter[], path: string): NoteHistory {
+  const sorted = [...events].sort((a, b) => b.OOEvent_Timestamp.localeCompare(a.OOEvent_Timestamp));
+  const history: NoteHistory = { path, previousPaths: [], events: [], totalEdits: 0, devices: {} };
+
+  let currentPath = path;
+  for (const record of sorted) {
+    if (record.OOEvent_Type === 'rename') {
+      const newPath = record.OOEvent_NewPath || record.OOEvent_FilePath;
+      if (newPath !== currentPath || !record.OOEvent_OldPath) continue;
+
+      history.events.push(record);
+      currentPath = record.OOEvent_OldPath;
+      history.previousPaths.push(currentPath);
+      continue;
+    }
+
+    // A folder rename or move renames the note too, even if no per-file event was recorded
+    if ((record.OOEvent_Type === 'folder-rename' || record.OOEvent_Type === 'folder-move') && record.OOEvent_OldPath &&
+        currentPath.startsWith(`${record.OOEvent_FilePath}/`)) {
+      history.events.push(record);
+      currentPath = `${record.OOEvent_OldPath}/${currentPath.slice(record.OOEvent_FilePath.length + 1)}`;
+      history.previousPaths.push(currentPath);
+      continue;
+    }
+
+    if (record.OOEvent_FilePath !== currentPath) continue;
+    history.events.push(record);
+    if (record.OOEvent_Type === 'create') break;
+  }
+
+  for (const record of history.events) {
+    const host = record.OOEvent_Hostname || 'unknown';
+    history.devices[host] = (history.devices[host] || 0) + 1;
+    if (EDIT_EVENT_TYPES.includes(record.OOEvent_Type)) {
+      history.totalEdits += record.OOEvent_Type === 'edit-burst' ? Number(record.OOEvent_ModifyCount) || 1 : 1;
+      history.lastEdit = history.lastEdit || record.OOEvent_Timestamp;
+    }
+  }
+  history.firstSeen = history.events.length > 0 ? history.events[history.events.length - 1].OOEvent_Timestamp : undefined;
+
+  return history;
+}
+
+function formatTimestamp(timestamp?: string): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : 'Never';
+}
+
+/**
+ * Describes what an event did, beyond its type
+ */
+function describeEvent(record: EventFrontmatter): string {
+  switch (record.OOEvent_Type) {
+    case 'rename':
+    case 'folder-rename':
+    case 'folder-move':
+      return `${record.OOEvent_OldPath} → ${record.OOEvent_NewPath || record.OOEvent_FilePath}`;
+    case 'metadata-change':
+      return record.OOEvent_ChangeSummary || '';
+    case 'link-added':
+      return `Link to ${record.OOEvent_TargetPath} added`;
+    case 'link-removed':
+      return `Link to ${record.OOEvent_TargetPath} removed`;
+    case 'close':
+      return record.OOEvent_DwellSeconds !== undefined ? `Open for ${record.OOEvent_DwellSeconds}s` : '';
+    case 'save':
+    case 'edit-burst': {
+      const parts: string[] = [];
+      if (record.OOEvent_ModifyCount) parts.push(`${record.OOEvent_ModifyCount} modifies`);
+      if (record.OOEvent_BytesAdded !== undefined) parts.push(`+${record.OOEvent_BytesAdded}/-${record.OOEvent_BytesRemoved || 0} bytes`);
+      if (record.OOEvent_WordsAfter !== undefined) parts.push(`${record.OOEvent_WordsAfter} words`);
+      return parts.join(', ');
+    }
+    default:
+      return '';
+  }
+}
+
+/**
+ * Shows the full event history of a note with summary statistics
+ */
+export class NoteHistoryModal extends Modal {
+  private history: NoteHistory;
+
+  constructor(app: App, history: NoteHistory) {
+    super(app);
+    this.history = history;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: `History of ${this.history.path.split('/').pop()}` });
+
+    if (this.history.events.length === 0) {
+      contentEl.createEl('p', { text: 'No events have been recorded for this note.' });
+      return;
+    }
+
+    const stats = contentEl.createEl('ul');
+    stats.createEl('li', { text: `First seen: ${formatTimestamp(this.history.firstSeen)}` });
+    stats.createEl('li', { text: `Last edit: ${formatTimestamp(this.history.lastEdit)}` });
+    stats.createEl('li', { text: `Total edits: ${this.history.totalEdits}` });
+    stats.createEl('li', {
+      text: `Devices: ${Object.entries(this.history.devices).sort((a, b) => b[1] - a[1]).map(([host, count]) => `${host} (${count})`).join(', ')}`
+    });
+    if (this.history.previousPaths.length > 0) {
+      stats.createEl('li', { text: `Previous paths: ${this.history.previousPaths.join(', ')}` });
+    }
+
+    const table = contentEl.createEl('table');
+    const header = table.createEl('tr');
+    ['When', 'Event', 'Device', 'Details'].forEach(text => header.createEl('th', { text }));
+    for (const record of this.history.events) {
+      const row = table.createEl('tr');
+      row.createEl('td', { text: formatTimestamp(record.OOEvent_Timestamp) });
+      row.createEl('td', { text: record.OOEvent_Type });
+      row.createEl('td', { text: record.OOEvent_Hostname || 'unknown' });
+      row.createEl('td', { text: describeEvent(record) });
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Remembers the content the plugin itself wrote into user notes, such as the
+ * activity section of a daily note, so the vault and metadata events that write
+ * causes are not logged as the user's own edits
+ */
+export class PluginWriteRegistry {
+  private written = new Map<string, string>(); // Content last written by the plugin, by path
+
+  /**
+   * Records a write before it is made
+   * @param path The note being written
+   * @param content The complete new content of the note
+   */
+  mark(path: string, content: string): void {
+    this.written.set(path, content);
+  }
+
+  /**
+   * Whether a note still holds exactly what the plugin wrote into it
+   * @param path The note path
+   * @param content The note's current content
+   */
+  isPluginWrite(path: string, content: string): boolean {
+    const written = this.written.get(path);
+    if (written === undefined) return false;
+    if (written === content) return true;
+
+    // The note has been edited since, so later changes are the user's
+    this.written.delete(path);
+    return false;
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const content = this.written.get(oldPath);
+    if (content !== undefined) {
+      this.written.delete(oldPath);
+      this.written.set(newPath, content);
+    }
+  }
+
+  forget(path: string): void {
+    this.written.delete(path);
+  }
+}
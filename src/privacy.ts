@@ -0,0 +1,124 @@
+import { App } from 'obsidian';
+import { FileFilter } from './filterRules';
+import { EventLog, LoggerConfig, PrivacyLevel } from './types';
+
+// Privacy levels from least to most restrictive
+const PRIVACY_ORDER: PrivacyLevel[] = ['full', 'hash', 'top-folder', 'aggregate'];
+
+const HASH_LENGTH = 16; // Hex characters kept from the SHA-256 digest
+
+/**
+ * Hashes a path with the vault's salt, so the same note always gets the same
+ * hash without the hash revealing the path
+ * @returns "hash:" and the first 16 hex characters of SHA-256(salt + path)
+ */
+export async function hashPath(path: string, salt: string): Promise<string> {
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}${path}`));
+  const hex = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  // The prefix keeps all-digit hashes from being read back from YAML as numbers
+  return `hash:${hex.slice(0, HASH_LENGTH)}`;
+}
+
+/**
+ * The top-level folder of a path, or "(vault root)" for files outside any folder
+ */
+export function getTopFolder(path: string): string {
+  const index = path.indexOf('/');
+  return index > 0 ? path.slice(0, index) : '(vault root)';
+}
+
+/**
+ * Decides how much of a file's path an event may record, based on the user's
+ * privacy rules. Rules are checked in order and the first match wins; files no
+ * rule matches are recorded in full.
+ */
+export class PrivacyFilter {
+  private config: LoggerConfig;
+  private fileFilter: FileFilter;
+
+  constructor(app: App, config: LoggerConfig) {
+    this.config = config;
+    this.fileFilter = new FileFilter(app, config);
+  }
+
+  updateConfig(config: LoggerConfig) {
+    this.config = config;
+    this.fileFilter.updateConfig(config);
+  }
+
+  /**
+   * The privacy level for a single path
+   * @param filePath The path of a file or folder
+   */
+  getLevel(filePath: string): PrivacyLevel {
+    const rule = this.config.privacyRules.find(rule => rule.pattern.trim() && this.fileFilter.matches(rule, filePath));
+    return rule ? rule.level : 'full';
+  }
+
+  /**
+   * The privacy level for an event: the most restrictive level of every path it
+   * mentions, so e.g. renaming a note out of a private folder does not reveal its old path
+   */
+  getEventLevel(eventLog: EventLog): PrivacyLevel {
+    const paths = [
+      eventLog.filePath,
+      eventLog.metadata?.oldPath,
+      eventLog.metadata?.newPath,
+      eventLog.metadata?.sourcePath,
+      eventLog.metadata?.targetPath
+    ].filter((path): path is string => !!path);
+
+    let level: PrivacyLevel = 'full';
+    for (const path of paths) {
+      const pathLevel = this.getLevel(path);
+      if (PRIVACY_ORDER.indexOf(pathLevel) > PRIVACY_ORDER.indexOf(level)) {
+        level = pathLevel;
+      }
+    }
+    return level;
+  }
+
+  /**
+   * Replaces every path in an event with its salted hash or top-level folder
+   * @param eventLog The event to redact; it is not modified
+   * @param level hash or top-folder
+   * @returns A redacted copy of the event
+   */
+  async redact(eventLog: EventLog, level: PrivacyLevel): Promise<EventLog> {
+    const redactPath = (path: string | undefined) => this.redactPath(path, level);
+
+    const redacted: EventLog = {
+      ...eventLog,
+      filePath: (await redactPath(eventLog.filePath)) || '',
+      fileName: '',
+      // A top-level folder does not identify a file, so neither should its ID
+      fileId: level === 'hash' ? eventLog.fileId : undefined,
+      privacy: level
+    };
+
+    if (eventLog.metadata) {
+      const { metadataChange, changeSummary, ...metadata } = eventLog.metadata;
+      redacted.metadata = {
+        ...metadata,
+        oldPath: await redactPath(metadata.oldPath),
+        newPath: await redactPath(metadata.newPath),
+        sourcePath: await redactPath(metadata.sourcePath),
+        targetPath: await redactPath(metadata.targetPath),
+        folder: level === 'top-folder' && metadata.folder ? getTopFolder(`${metadata.folder}/`) : undefined
+      };
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Replaces a path with its salted hash or top-level folder
+   * @param level hash or top-folder
+   */
+  async redactPath(path: string | undefined, level: PrivacyLevel): Promise<string | undefined> {
+    if (!path) return path;
+    return level === 'hash' ? hashPath(path, this.config.privacySalt) : getTopFolder(path);
+  }
+}
@@ -0,0 +1,168 @@
+import { App, Modal } from 'obsidian';
+import { EventLogger } from './logger';
+import { EventFrontmatter, PluginSettings, RetentionRule } from './types';
+import { RollupStore, buildRollups } from './rollups';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The outcome of a dry run: what applying the retention policy would do
+ */
+export interface RetentionPlan {
+  totalEvents: number;
+  expired: EventFrontmatter[];
+  expiredByType: Record<string, number>;
+  rollupDates: string[];
+}
+
+function increment(counts: Record<string, number>, key: string, amount = 1): void {
+  counts[key] = (counts[key] || 0) + amount;
+}
+
+/**
+ * Finds the retention rule for an event type, falling back to the "*" rule
+ */
+function findRule(rules: RetentionRule[], eventType: string): RetentionRule | undefined {
+  return rules.find(rule => rule.eventType === eventType) || rules.find(rule => rule.eventType === '*');
+}
+
+/**
+ * Prunes old events according to the retention rules, compacting the deleted
+ * events into per-day roll-up notes in EventsFolder/rollups
+ */
+export class RetentionManager {
+  private app: App;
+  private logger: EventLogger;
+  private getSettings: () => PluginSettings;
+  private rollups: RollupStore;
+
+  constructor(app: App, logger: EventLogger, getSettings: () => PluginSettings) {
+    this.app = app;
+    this.logger = logger;
+    this.getSettings = getSettings;
+    this.rollups = new RollupStore(app, () => logger.getConfig().eventsFolder, () => logger.isEncrypted());
+  }
+
+  /**
+   * Works out which events the retention policy would delete, without changing anything
+   * @param now The reference time for event ages
+   */
+  async plan(now: Date = new Date()): Promise<RetentionPlan> {
+    const settings = this.getSettings();
+    const events = await this.logger.readEvents();
+
+    // Age-based rules, per event type
+    const expired: EventFrontmatter[] = [];
+    const remaining: EventFrontmatter[] = [];
+    for (const event of events) {
+      const rule = findRule(settings.retentionRules, event.OOEvent_Type);
+      const age = now.getTime() - new Date(event.OOEvent_Timestamp).getTime();
+      if (rule && rule.maxAgeDays > 0 && age > rule.maxAgeDays * DAY_MS) {
+        expired.push(event);
+      } else {
+        remaining.push(event);
+      }
+    }
+
+    // Count-based limit, dropping the oldest events first
+    if (settings.maxLogEntries > 0 && remaining.length > settings.maxLogEntries) {
+      expired.push(...remaining.slice(0, remaining.length - settings.maxLogEntries));
+    }
+
+    const expiredByType: Record<string, number> = {};
+    expired.forEach(event => increment(expiredByType, event.OOEvent_Type));
+
+    return {
+      totalEvents: events.length,
+      expired,
+      expiredByType,
+      rollupDates: Array.from(buildRollups(expired).keys()).sort()
+    };
+  }
+
+  /**
+   * Deletes the expired events, then writes roll-ups for the ones actually deleted
+   * @param plan A plan returned by plan()
+   * @returns Number of events deleted
+   */
+  async apply(plan: RetentionPlan): Promise<number> {
+    if (plan.expired.length === 0) return 0;
+    if (this.logger.isLocked()) {
+      throw new Error('Unlock the encrypted event log before applying retention');
+    }
+
+    await this.logger.deleteEvents(new Set(plan.expired.map(event => event.OOEvent_GUID)));
+
+    // Only events that are really gone are rolled up, so events that survive a partly
+    // failed delete are not counted again when the next run rolls them up
+    const timestamps = plan.expired.map(event => new Date(event.OOEvent_Timestamp).getTime());
+    const surviving = new Set((await this.logger.readEvents({
+      from: new Date(Math.min(...timestamps)),
+      to: new Date(Math.max(...timestamps))
+    })).map(event => event.OOEvent_GUID));
+    const deleted = plan.expired.filter(event => !surviving.has(event.OOEvent_GUID));
+
+    const rollups = buildRollups(deleted);
+    for (const rollup of rollups.values()) {
+      await this.rollups.write(rollup);
+    }
+
+    console.log(`[ObsidianObserver] Retention applied: ${deleted.length} events compacted into ${rollups.size} daily roll-ups`);
+    return deleted.length;
+  }
+}
+
+/**
+ * Shows a dry-run preview of the retention policy and applies it on confirmation
+ */
+export class RetentionPreviewModal extends Modal {
+  private plan: RetentionPlan;
+  private onApply: () => Promise<void>;
+
+  constructor(app: App, plan: RetentionPlan, onApply: () => Promise<void>) {
+    super(app);
+    this.plan = plan;
+    this.onApply = onApply;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Retention Policy Preview' });
+
+    if (this.plan.expired.length === 0) {
+      contentEl.createEl('p', { text: `Nothing to prune. All ${this.plan.totalEvents} events are within the retention policy.` });
+      return;
+    }
+
+    contentEl.createEl('p', {
+      text: `${this.plan.expired.length} of ${this.plan.totalEvents} events would be compacted into roll-ups for ${this.plan.rollupDates.length} days (${this.plan.rollupDates[0]} to ${this.plan.rollupDates[this.plan.rollupDates.length - 1]}) and then deleted.`
+    });
+
+    const table = contentEl.createEl('table');
+    const header = table.createEl('tr');
+    header.createEl('th', { text: 'Event Type' });
+    header.createEl('th', { text: 'Events to Delete' });
+    Object.entries(this.plan.expiredByType)
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([type, count]) => {
+        const row = table.createEl('tr');
+        row.createEl('td', { text: type });
+        row.createEl('td', { text: String(count) });
+      });
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+    const applyButton = buttons.createEl('button', { text: 'Apply', cls: 'mod-warning' });
+    applyButton.addEventListener('click', async () => {
+      applyButton.disabled = true;
+      await this.onApply();
+      this.close();
+    });
+    const cancelButton = buttons.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,172 @@
+import { App, TFile, parseYaml } from 'obsidian';
+import { EventFrontmatter } from './types';
+import { formatLocalDate } from './utils';
+
+/**
+ * Per-day counts that stand in for events that are no longer, or never were, stored individually
+ */
+export interface DailyRollup {
+  date: string;
+  total: number;
+  byType: Record<string, number>;
+  byHost: Record<string, number>;
+  byFile: Record<string, number>;
+}
+
+function increment(counts: Record<string, number>, key: string, amount = 1): void {
+  counts[key] = (counts[key] || 0) + amount;
+}
+
+/**
+ * Groups events into per-day roll-ups keyed by local date
+ * @param events The events to compact
+ * @returns Roll-ups by date
+ */
+export function buildRollups(events: EventFrontmatter[]): Map<string, DailyRollup> {
+  const rollups = new Map<string, DailyRollup>();
+
+  for (const event of events) {
+    const date = formatLocalDate(new Date(event.OOEvent_Timestamp));
+    let rollup = rollups.get(date);
+    if (!rollup) {
+      rollup = { date, total: 0, byType: {}, byHost: {}, byFile: {} };
+      rollups.set(date, rollup);
+    }
+
+    rollup.total++;
+    increment(rollup.byType, event.OOEvent_Type);
+    increment(rollup.byHost, event.OOEvent_Hostname || 'unknown');
+    if (event.OOEvent_FilePath) {
+      increment(rollup.byFile, event.OOEvent_FilePath);
+    }
+  }
+
+  return rollups;
+}
+
+function mergeRollups(target: DailyRollup, source: DailyRollup): DailyRollup {
+  const merged: DailyRollup = {
+    date: target.date,
+    total: target.total + source.total,
+    byType: { ...target.byType },
+    byHost: { ...target.byHost },
+    byFile: { ...target.byFile }
+  };
+  Object.entries(source.byType).forEach(([key, count]) => increment(merged.byType, key, count));
+  Object.entries(source.byHost).forEach(([key, count]) => increment(merged.byHost, key, count));
+  Object.entries(source.byFile).forEach(([key, count]) => increment(merged.byFile, key, count));
+  return merged;
+}
+
+/**
+ * Reads and writes the per-day roll-up notes in EventsFolder/rollups, which keep
+ * event counts for events that are no longer stored individually
+ */
+export class RollupStore {
+  private app: App;
+  private getEventsFolder: () => string;
+  private omitFiles: () => boolean; // True while the event log is encrypted, so roll-up notes name no files
+
+  constructor(app: App, getEventsFolder: () => string, omitFiles: () => boolean) {
+    this.app = app;
+    this.getEventsFolder = getEventsFolder;
+    this.omitFiles = omitFiles;
+  }
+
+  private getRollupsFolder(): string {
+    return `${this.getEventsFolder()}/rollups`;
+  }
+
+  private async readRollup(file: TFile): Promise<DailyRollup | null> {
+    const content = await this.app.vault.read(file);
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    if (!match) return null;
+
+    const frontmatter = parseYaml(match[1]);
+    if (!frontmatter || !frontmatter.OORollup_Date) return null;
+
+    return {
+      date: String(frontmatter.OORollup_Date),
+      total: Number(frontmatter.OORollup_Total) || 0,
+      byType: frontmatter.OORollup_ByType || {},
+      byHost: frontmatter.OORollup_ByHost || {},
+      byFile: frontmatter.OORollup_ByFile || {}
+    };
+  }
+
+  /**
+   * Adds a roll-up to the note for its day, merging it with any counts already there
+   * @param rollup The counts to add
+   */
+  async write(rollup: DailyRollup): Promise<void> {
+    try {
+      const folder = this.getRollupsFolder();
+      if (!this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
+      }
+
+      // Merge into an existing roll-up for the same day
+      const filePath = `${folder}/${rollup.date}.md`;
+      const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+      const counts = this.omitFiles() ? { ...rollup, byFile: {} } : rollup;
+      let merged = counts;
+      if (existingFile instanceof TFile) {
+        const existing = await this.readRollup(existingFile);
+        if (existing) {
+          merged = mergeRollups(existing, counts);
+        }
+      }
+
+      const content = this.createRollupContent(merged);
+      if (existingFile instanceof TFile) {
+        await this.app.vault.modify(existingFile, content);
+      } else {
+        await this.app.vault.create(filePath, content);
+      }
+    } catch (error) {
+      console.error(`[ObsidianObserver] Error writing roll-up for ${rollup.date}:`, error);
+      throw error; // Let the caller report the failed roll-up
+    }
+  }
+
+  private createRollupContent(rollup: DailyRollup): string {
+    const sortedEntries = (counts: Record<string, number>) =>
+      Object.entries(counts).sort((a, b) => b[1] - a[1]);
+
+    let content = `---
+tags: [obsidian-explorer, rollup]
+type: obsidian-event-rollup
+OORollup_Date: ${rollup.date}
+OORollup_Total: ${rollup.total}
+OORollup_ByType: ${JSON.stringify(rollup.byType)}
+OORollup_ByHost: ${JSON.stringify(rollup.byHost)}
+OORollup_ByFile: ${JSON.stringify(rollup.byFile)}
+OORollup_Updated: ${new Date().toISOString()}
+---
+
+# Event Roll-up for ${rollup.date}
+
+Counts of ${rollup.total} events that were pruned by the retention policy or recorded as aggregate-only by a privacy rule.
+
+## By Type
+
+| Type | Count |
+|------|-------|
+`;
+    sortedEntries(rollup.byType).forEach(([type, count]) => {
+      content += `| ${type} | ${count} |\n`;
+    });
+
+    content += `\n## By Host\n\n| Host | Count |\n|------|-------|\n`;
+    sortedEntries(rollup.byHost).forEach(([host, count]) => {
+      content += `| ${host} | ${count} |\n`;
+    });
+
+    content += `\n## By File\n\n| File | Count |\n|------|-------|\n`;
+    sortedEntries(rollup.byFile).forEach(([file, count]) => {
+      content += `| ${file.replace(/\|/g, '\\|')} | ${count} |\n`;
+    });
+
+    return content;
+  }
+}
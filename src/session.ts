@@ -0,0 +1,112 @@
+import { App } from 'obsidian';
+import { EventLog, SessionStatus } from './types';
+import { generateBase32Guid } from './utils';
+
+const SESSION_STORAGE_KEY = 'obsidian-observer-session';
+
+/**
+ * Session state persisted in vault-specific localStorage while Obsidian is running
+ */
+interface StoredSession {
+  sessionId: string;
+  startedAt: string;
+  lastSeenAt: string;
+  eventCount: number;
+  hostname: string;
+}
+
+/**
+ * Tracks one Obsidian run from plugin load to quit. The running session is kept
+ * in localStorage so a session that never reached quit can be closed as abnormal
+ * on the next startup.
+ */
+export class SessionTracker {
+  private app: App;
+  private current: StoredSession | null = null;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  getSessionId(): string | undefined {
+    return this.current?.sessionId;
+  }
+
+  /**
+   * Starts a new session
+   * @param hostname Hostname of the machine the session runs on
+   * @returns A session-end event for a previous session that never quit, if any
+   */
+  start(hostname: string): EventLog | null {
+    const previous = this.app.loadLocalStorage(SESSION_STORAGE_KEY) as StoredSession | null;
+
+    const now = new Date().toISOString();
+    this.current = {
+      sessionId: generateBase32Guid(),
+      startedAt: now,
+      lastSeenAt: now,
+      eventCount: 0,
+      hostname
+    };
+    this.persist();
+
+    if (previous && previous.sessionId) {
+      console.log(`[ObsidianObserver] Previous session ${previous.sessionId} ended without quitting`);
+      return this.createSessionEndEvent(previous, 'abnormal', previous.lastSeenAt);
+    }
+    return null;
+  }
+
+  /**
+   * Counts an event against the current session
+   * @param timestamp Timestamp of the event
+   */
+  recordEvent(timestamp: string): void {
+    if (!this.current) return;
+    this.current.eventCount++;
+    this.current.lastSeenAt = timestamp;
+    this.persist();
+  }
+
+  /**
+   * Ends the current session
+   * @returns The session-end event, or null if the session has already ended
+   */
+  end(): EventLog | null {
+    const session = this.current;
+    if (!session) return null;
+
+    this.current = null;
+    this.app.saveLocalStorage(SESSION_STORAGE_KEY, null);
+    return this.createSessionEndEvent(session, 'ended', new Date().toISOString());
+  }
+
+  private persist(): void {
+    this.app.saveLocalStorage(SESSION_STORAGE_KEY, this.current);
+  }
+
+  private createSessionEndEvent(session: StoredSession, status: SessionStatus, endedAt: string): EventLog {
+    const durationSeconds = Math.max(0, Math.round((new Date(endedAt).getTime() - new Date(session.startedAt).getTime()) / 1000));
+
+    return {
+      guid: generateBase32Guid(),
+      timestamp: new Date().toISOString(),
+      eventType: 'session-end',
+      filePath: '',
+      fileName: '',
+      vaultName: this.app.vault.getName(),
+      hostname: session.hostname,
+      sessionId: session.sessionId,
+      metadata: {
+        lastModified: endedAt,
+        session: {
+          startedAt: session.startedAt,
+          endedAt,
+          durationSeconds,
+          eventCount: session.eventCount,
+          status
+        }
+      }
+    };
+  }
+}
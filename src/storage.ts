@@ -0,0 +1,557 @@
+import { App, TFile, parseYaml } from 'obsidian';
+import { EventFrontmatter, LoggerConfig } from './types';
+import { EncryptedEnvelope, EventCipher, isEncryptedEnvelope } from './encryption';
+import { formatLocalDate } from './utils';
+
+/**
+ * Optional date range used when reading events back from storage
+ */
+export interface EventDateRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Thrown by writeEvents when only part of a batch reached storage, so the caller
+ * can retry the rest without writing the stored records twice
+ */
+export class PartialWriteError extends Error {
+  written: Set<string>; // GUIDs of the records that were stored
+  cause: unknown;
+
+  constructor(written: Set<string>, cause: unknown) {
+    super(`Only ${written.size} events were written: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PartialWriteError';
+    this.written = written;
+    this.cause = cause;
+  }
+}
+
+/**
+ * A storage backend that persists event records written by the EventLogger
+ */
+export interface EventStorage {
+  /**
+   * Persists a batch of event records
+   * @param records The records to write, in the order they were logged
+   * @throws PartialWriteError when some of the records were written before the write failed
+   */
+  writeEvents(records: EventFrontmatter[]): Promise<void>;
+
+  /**
+   * Reads stored event records back
+   * @param range Optional date range to limit the records returned
+   * @returns The stored records sorted by timestamp
+   */
+  readEvents(range?: EventDateRange): Promise<EventFrontmatter[]>;
+
+  /**
+   * Deletes stored event records
+   * @param guids GUIDs of the events to delete
+   * @returns Number of events deleted
+   */
+  deleteEvents(guids: Set<string>): Promise<number>;
+
+  /**
+   * Replaces stored event records in place, keeping their GUIDs; records that are
+   * not stored yet are written as new ones. Nothing is deleted first, so a failed
+   * rewrite leaves every event readable in either its old or its new form.
+   * @param records The new versions of the records
+   */
+  rewriteEvents(records: EventFrontmatter[]): Promise<void>;
+}
+
+/**
+ * Creates the storage backend selected in the logger configuration. Events stored
+ * by the other backend, before the backend was switched, stay readable through it.
+ * @param app The Obsidian app instance
+ * @param config The logger configuration
+ * @param cipher Encrypts events at rest while encryption is enabled
+ * @returns The storage backend instance
+ */
+export function createEventStorage(app: App, config: LoggerConfig, cipher?: EventCipher): EventStorage {
+  const markdown = new MarkdownEventStorage(app, config, cipher);
+  const jsonl = new JsonlEventStorage(app, config, cipher);
+  return config.storageBackend === 'jsonl'
+    ? new CombinedEventStorage(jsonl, markdown)
+    : new CombinedEventStorage(markdown, jsonl);
+}
+
+/**
+ * Writes new events to the active backend and reads events from both backends, so
+ * switching backends never hides events written earlier. Both keep their files in
+ * the same events folder, as GUID.md notes and as YYYY-MM-DD.jsonl files.
+ */
+export class CombinedEventStorage implements EventStorage {
+  private active: EventStorage;
+  private previous: EventStorage;
+
+  constructor(active: EventStorage, previous: EventStorage) {
+    this.active = active;
+    this.previous = previous;
+  }
+
+  async writeEvents(records: EventFrontmatter[]): Promise<void> {
+    await this.active.writeEvents(records);
+  }
+
+  async readEvents(range?: EventDateRange): Promise<EventFrontmatter[]> {
+    const active = await this.active.readEvents(range);
+    const previous = await this.previous.readEvents(range);
+    if (previous.length === 0) return active;
+
+    // A record in both was moved by an interrupted rewrite; the active copy is the newer one
+    const activeGuids = new Set(active.map(record => record.OOEvent_GUID));
+    return sortByTimestamp(active.concat(previous.filter(record => !activeGuids.has(record.OOEvent_GUID))));
+  }
+
+  async deleteEvents(guids: Set<string>): Promise<number> {
+    return (await this.active.deleteEvents(guids)) + (await this.previous.deleteEvents(guids));
+  }
+
+  /**
+   * Rewritten records move to the active backend; the old copies are deleted only
+   * once the new ones are written
+   */
+  async rewriteEvents(records: EventFrontmatter[]): Promise<void> {
+    await this.active.rewriteEvents(records);
+    await this.previous.deleteEvents(new Set(records.map(record => record.OOEvent_GUID)));
+  }
+}
+
+/**
+ * Checks whether a record's timestamp falls inside the given range
+ */
+function isInRange(record: EventFrontmatter, range?: EventDateRange): boolean {
+  if (!range) return true;
+  const time = new Date(record.OOEvent_Timestamp).getTime();
+  if (range.from && time < range.from.getTime()) return false;
+  if (range.to && time > range.to.getTime()) return false;
+  return true;
+}
+
+function sortByTimestamp(records: EventFrontmatter[]): EventFrontmatter[] {
+  return records.sort((a, b) => a.OOEvent_Timestamp.localeCompare(b.OOEvent_Timestamp));
+}
+
+/**
+ * Decrypts a stored record if it is encrypted
+ * @returns The plain record, or null for an encrypted record while the event log is locked
+ */
+async function decodeRecord(record: EventFrontmatter | EncryptedEnvelope, cipher?: EventCipher): Promise<EventFrontmatter | null> {
+  if (!isEncryptedEnvelope(record)) {
+    return record;
+  }
+  if (!cipher?.isUnlocked()) {
+    return null;
+  }
+  return cipher.decryptRecord(record);
+}
+
+function warnLockedRecords(count: number): void {
+  if (count > 0) {
+    console.warn(`[ObsidianObserver] Skipped ${count} encrypted events; unlock the event log to read them`);
+  }
+}
+
+// Fields always written at the top of an event note, in this order
+const REQUIRED_NOTE_FIELDS = [
+  'OOEvent_GUID', 'OOEvent_Timestamp', 'OOEvent_LocalTimestamp', 'OOEvent_Timezone', 'OOEvent_Type',
+  'OOEvent_FilePath', 'OOEvent_FileName', 'OOEvent_VaultName', 'OOEvent_Hostname',
+  'OOEvent_LastModified', 'OOEvent_Created', 'OOEvent_PluginVersion'
+];
+
+/**
+ * Formats an optional frontmatter value, quoting strings that YAML would otherwise misread
+ */
+function formatYamlValue(value: unknown): string {
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value !== 'string') {
+    // JSON arrays and objects are valid YAML flow collections
+    return JSON.stringify(value);
+  }
+  const text = value;
+  if (/^[\s\-?:,\[\]{}#&*!|>'"%@`]|:\s|\s#|\s$/.test(text) || /^(true|false|null|~|[\d.+-]+)$/i.test(text)) {
+    return JSON.stringify(text);
+  }
+  return text;
+}
+
+/**
+ * Stores each event as an individual markdown note with the event fields in its frontmatter
+ */
+export class MarkdownEventStorage implements EventStorage {
+  private app: App;
+  private config: LoggerConfig;
+  private cipher?: EventCipher;
+
+  constructor(app: App, config: LoggerConfig, cipher?: EventCipher) {
+    this.app = app;
+    this.config = config;
+    this.cipher = cipher;
+  }
+
+  async writeEvents(records: EventFrontmatter[]): Promise<void> {
+    const written = new Set<string>();
+    for (const record of records) {
+      try {
+        await this.createEventNote(record);
+      } catch (error) {
+        throw written.size > 0 ? new PartialWriteError(written, error) : error;
+      }
+      written.add(record.OOEvent_GUID);
+    }
+  }
+
+  async rewriteEvents(records: EventFrontmatter[]): Promise<void> {
+    for (const record of records) {
+      const file = this.app.vault.getAbstractFileByPath(`${this.config.eventsFolder}/events/${record.OOEvent_GUID}.md`);
+      if (file instanceof TFile) {
+        try {
+          await this.app.vault.modify(file, await this.encodeNote(record));
+        } catch (error) {
+          console.error(`[ObsidianObserver] Error rewriting event note ${file.path}:`, error);
+          throw error;
+        }
+      } else {
+        await this.createEventNote(record);
+      }
+    }
+  }
+
+  async readEvents(range?: EventDateRange): Promise<EventFrontmatter[]> {
+    const eventsDir = `${this.config.eventsFolder}/events/`;
+    const records: EventFrontmatter[] = [];
+    let locked = 0;
+
+    const files = this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(eventsDir));
+    for (const file of files) {
+      try {
+        const frontmatter = await this.readFrontmatter(file);
+        if (!frontmatter || !frontmatter.OOEvent_GUID) continue;
+
+        const record = await decodeRecord(frontmatter, this.cipher);
+        if (!record) {
+          locked++;
+        } else if (isInRange(record, range)) {
+          records.push(record);
+        }
+      } catch (error) {
+        console.warn(`[ObsidianObserver] Could not read event note ${file.path}:`, error);
+      }
+    }
+
+    warnLockedRecords(locked);
+    return sortByTimestamp(records);
+  }
+
+  async deleteEvents(guids: Set<string>): Promise<number> {
+    const eventsDir = `${this.config.eventsFolder}/events`;
+    let deleted = 0;
+
+    for (const guid of guids) {
+      const file = this.app.vault.getAbstractFileByPath(`${eventsDir}/${guid}.md`);
+      if (file instanceof TFile) {
+        try {
+          await this.app.vault.delete(file);
+          deleted++;
+        } catch (error) {
+          console.error(`[ObsidianObserver] Error deleting event note ${file.path}:`, error);
+        }
+      }
+    }
+
+    return deleted;
+  }
+
+  private async readFrontmatter(file: TFile): Promise<EventFrontmatter | null> {
+    // Prefer the metadata cache, fall back to parsing notes that have not been indexed yet
+    const cached = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (cached) {
+      return cached as unknown as EventFrontmatter;
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    return match ? parseYaml(match[1]) as EventFrontmatter : null;
+  }
+
+  private async createEventNote(frontmatter: EventFrontmatter): Promise<void> {
+    try {
+      const eventsDir = `${this.config.eventsFolder}/events`;
+      const fileName = `${frontmatter.OOEvent_GUID}.md`;
+      const filePath = `${eventsDir}/${fileName}`;
+
+      // Create the note content with frontmatter
+      const noteContent = await this.encodeNote(frontmatter);
+
+      // Check if file already exists
+      const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+
+      if (existingFile) {
+        console.log(`[ObsidianObserver] Event note already exists: ${filePath}`);
+        return;
+      }
+
+      // Create the note file
+      await this.app.vault.create(filePath, noteContent);
+      console.log(`[ObsidianObserver] Created event note: ${filePath}`);
+
+      // Refresh the file explorer to show the new file
+      this.app.workspace.trigger('file-explorer:refresh');
+
+    } catch (error) {
+      console.error(`[ObsidianObserver] Error creating event note:`, error);
+      throw error; // Let the logger keep the event buffered and journaled
+    }
+  }
+
+  // Encrypting fails while the event log is locked
+  private async encodeNote(frontmatter: EventFrontmatter): Promise<string> {
+    return this.cipher?.shouldEncrypt()
+      ? this.createEncryptedNoteContent(await this.cipher.encryptRecord(frontmatter))
+      : this.createNoteContent(frontmatter);
+  }
+
+  private createNoteContent(frontmatter: EventFrontmatter): string {
+    const eventType = frontmatter.OOEvent_Type;
+    const fileName = frontmatter.OOEvent_FileName;
+    // Redacted events must not name or link the file they are about
+    const isRedacted = !!frontmatter.OOEvent_Privacy;
+
+    // Create frontmatter string with conditional fields
+    let frontmatterFields = `---
+aliases: [${eventType.toUpperCase()} Event${isRedacted ? '' : `, ${fileName}`}]
+tags: [obsidian-explorer, event, ${eventType}]
+type: obsidian-event
+OOEvent_GUID: ${frontmatter.OOEvent_GUID}
+OOEvent_Timestamp: ${frontmatter.OOEvent_Timestamp}
+OOEvent_LocalTimestamp: ${frontmatter.OOEvent_LocalTimestamp}
+OOEvent_Timezone: ${frontmatter.OOEvent_Timezone}
+OOEvent_Type: ${frontmatter.OOEvent_Type}
+OOEvent_FilePath: ${frontmatter.OOEvent_FilePath}
+OOEvent_FileName: ${frontmatter.OOEvent_FileName}
+OOEvent_VaultName: ${frontmatter.OOEvent_VaultName}
+OOEvent_Hostname: ${frontmatter.OOEvent_Hostname}
+OOEvent_LastModified: ${frontmatter.OOEvent_LastModified}
+OOEvent_Created: ${frontmatter.OOEvent_Created}
+OOEvent_PluginVersion: ${frontmatter.OOEvent_PluginVersion}`;
+
+    // Add optional fields if they exist
+    for (const [key, value] of Object.entries(frontmatter)) {
+      if (REQUIRED_NOTE_FIELDS.includes(key) || value === undefined || value === null || value === '') {
+        continue;
+      }
+      frontmatterFields += `\n${key}: ${formatYamlValue(value)}`;
+    }
+
+    frontmatterFields += `\n---\n\n`;
+
+    // Create the note content - simplified to just frontmatter and link
+    let noteContent = frontmatterFields;
+
+    // Only add file link if there's a file name (skip for quit/ready/PluginLoaded and folder events)
+    if (fileName && fileName.trim() !== '' && !eventType.startsWith('folder-') && !isRedacted) {
+      noteContent += `[[${fileName}]]`;
+    } else {
+      noteContent += `# ${eventType.toUpperCase()} Event\n\nThis event was logged at ${new Date(frontmatter.OOEvent_Timestamp).toLocaleString()}.`;
+    }
+
+    return noteContent;
+  }
+
+  private createEncryptedNoteContent(envelope: EncryptedEnvelope): string {
+    // Only the GUID stays readable, so the note can still be found and deleted while locked
+    return `---
+tags: [obsidian-explorer, event, encrypted]
+type: obsidian-event-encrypted
+OOEvent_GUID: ${envelope.OOEvent_GUID}
+OOEvent_Encrypted: ${formatYamlValue(envelope.OOEvent_Encrypted)}
+---
+
+# Encrypted Event
+
+This event is encrypted. Unlock the event log in ObsidianObserver to read it.`;
+  }
+}
+
+/**
+ * Appends events to one JSON Lines file per local day, e.g. events/2026-10-19.jsonl
+ */
+export class JsonlEventStorage implements EventStorage {
+  private app: App;
+  private config: LoggerConfig;
+  private cipher?: EventCipher;
+
+  constructor(app: App, config: LoggerConfig, cipher?: EventCipher) {
+    this.app = app;
+    this.config = config;
+    this.cipher = cipher;
+  }
+
+  private getDailyFilePath(date: string): string {
+    return `${this.config.eventsFolder}/events/${date}.jsonl`;
+  }
+
+  async writeEvents(records: EventFrontmatter[]): Promise<void> {
+    // Group records by their local day so each batch is a single append per file
+    const linesByDate = new Map<string, string>();
+    for (const record of records) {
+      const date = formatLocalDate(new Date(record.OOEvent_Timestamp));
+      linesByDate.set(date, (linesByDate.get(date) || '') + await this.encodeLine(record) + '\n');
+    }
+
+    const adapter = this.app.vault.adapter;
+    const written = new Set<string>();
+    for (const [date, lines] of linesByDate) {
+      const filePath = this.getDailyFilePath(date);
+      try {
+        if (await adapter.exists(filePath)) {
+          await adapter.append(filePath, lines);
+        } else {
+          await adapter.write(filePath, lines);
+          console.log(`[ObsidianObserver] Created daily event file: ${filePath}`);
+        }
+      } catch (error) {
+        console.error(`[ObsidianObserver] Error appending to daily event file ${filePath}:`, error);
+        // Let the logger keep the events buffered and journaled, except those already appended to other days
+        throw written.size > 0 ? new PartialWriteError(written, error) : error;
+      }
+      records
+        .filter(record => formatLocalDate(new Date(record.OOEvent_Timestamp)) === date)
+        .forEach(record => written.add(record.OOEvent_GUID));
+    }
+  }
+
+  async rewriteEvents(records: EventFrontmatter[]): Promise<void> {
+    const eventsDir = `${this.config.eventsFolder}/events`;
+    const adapter = this.app.vault.adapter;
+    const remaining = new Map(records.map(record => [record.OOEvent_GUID, record]));
+
+    if (await adapter.exists(eventsDir)) {
+      // Replace matching lines file by file, so each daily file is rewritten in one write
+      const listing = await adapter.list(eventsDir);
+      for (const filePath of listing.files) {
+        if (!/\d{4}-\d{2}-\d{2}\.jsonl$/.test(filePath)) continue;
+
+        const lines = (await adapter.read(filePath)).split('\n').filter(line => line.trim());
+        let changed = false;
+        for (let i = 0; i < lines.length; i++) {
+          let guid: string | undefined;
+          try {
+            guid = (JSON.parse(lines[i]) as EventFrontmatter).OOEvent_GUID;
+          } catch (error) {
+            // Malformed lines are kept as they are
+            continue;
+          }
+          const record = remaining.get(guid);
+          if (!record) continue;
+          lines[i] = await this.encodeLine(record);
+          remaining.delete(guid);
+          changed = true;
+        }
+
+        if (changed) {
+          try {
+            await adapter.write(filePath, lines.join('\n') + '\n');
+          } catch (error) {
+            console.error(`[ObsidianObserver] Error rewriting daily event file ${filePath}:`, error);
+            throw error;
+          }
+        }
+      }
+    }
+
+    if (remaining.size > 0) {
+      await this.writeEvents(Array.from(remaining.values()));
+    }
+  }
+
+  // Encrypted lines keep only the GUID readable; encrypting fails while the event log is locked
+  private async encodeLine(record: EventFrontmatter): Promise<string> {
+    return JSON.stringify(this.cipher?.shouldEncrypt() ? await this.cipher.encryptRecord(record) : record);
+  }
+
+  async readEvents(range?: EventDateRange): Promise<EventFrontmatter[]> {
+    const eventsDir = `${this.config.eventsFolder}/events`;
+    const adapter = this.app.vault.adapter;
+    const records: EventFrontmatter[] = [];
+    let locked = 0;
+
+    if (!(await adapter.exists(eventsDir))) {
+      return records;
+    }
+
+    // Daily file names let us skip whole days outside the requested range
+    const fromDate = range?.from ? formatLocalDate(range.from) : undefined;
+    const toDate = range?.to ? formatLocalDate(range.to) : undefined;
+
+    const listing = await adapter.list(eventsDir);
+    for (const filePath of listing.files) {
+      const match = filePath.match(/(\d{4}-\d{2}-\d{2})\.jsonl$/);
+      if (!match) continue;
+      if ((fromDate && match[1] < fromDate) || (toDate && match[1] > toDate)) continue;
+
+      const content = await adapter.read(filePath);
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const record = await decodeRecord(JSON.parse(line) as EventFrontmatter | EncryptedEnvelope, this.cipher);
+          if (!record) {
+            locked++;
+          } else if (isInRange(record, range)) {
+            records.push(record);
+          }
+        } catch (error) {
+          console.warn(`[ObsidianObserver] Skipping malformed line in ${filePath}:`, error);
+        }
+      }
+    }
+
+    warnLockedRecords(locked);
+    return sortByTimestamp(records);
+  }
+
+  async deleteEvents(guids: Set<string>): Promise<number> {
+    const eventsDir = `${this.config.eventsFolder}/events`;
+    const adapter = this.app.vault.adapter;
+    let deleted = 0;
+
+    if (!(await adapter.exists(eventsDir))) {
+      return deleted;
+    }
+
+    // Rewrite each daily file without the deleted lines, removing files that end up empty
+    const listing = await adapter.list(eventsDir);
+    for (const filePath of listing.files) {
+      if (!/\d{4}-\d{2}-\d{2}\.jsonl$/.test(filePath)) continue;
+
+      try {
+        const lines = (await adapter.read(filePath)).split('\n').filter(line => line.trim());
+        const kept = lines.filter(line => {
+          try {
+            return !guids.has((JSON.parse(line) as EventFrontmatter).OOEvent_GUID);
+          } catch (error) {
+            // Keep malformed lines rather than silently dropping them
+            return true;
+          }
+        });
+
+        if (kept.length === lines.length) continue;
+        deleted += lines.length - kept.length;
+
+        if (kept.length === 0) {
+          await adapter.remove(filePath);
+        } else {
+          await adapter.write(filePath, kept.join('\n') + '\n');
+        }
+      } catch (error) {
+        console.error(`[ObsidianObserver] Error deleting events from ${filePath}:`, error);
+      }
+    }
+
+    return deleted;
+  }
+}
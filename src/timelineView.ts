@@ -0,0 +1,223 @@
+import { ItemView, WorkspaceLeaf, debounce } from 'obsidian';
+import { EventLogger } from './logger';
+import { EventFrontmatter, EVENT_TYPES } from './types';
+import { formatLocalDate } from './utils';
+
+export const TIMELINE_VIEW_TYPE = 'obsidian-observer-timeline';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keeps the view responsive in vaults with long histories
+const MAX_LOADED_EVENTS = 2000;
+const MAX_RENDERED_EVENTS = 500;
+
+const TIME_RANGES: Record<string, { label: string; days: number }> = {
+  '1': { label: 'Last 24 hours', days: 1 },
+  '7': { label: 'Last 7 days', days: 7 },
+  '30': { label: 'Last 30 days', days: 30 },
+  'all': { label: 'All time', days: 0 }
+};
+
+interface TimelineFilters {
+  eventType: string; // Empty shows all event types
+  host: string; // Empty shows all hosts
+  folder: string; // Path prefix; empty shows all folders
+  range: string; // Key of TIME_RANGES
+}
+
+/**
+ * A live, scrolling timeline of events grouped by day. Reads stored events once
+ * and then follows the logger, so it works without the Dataview plugin.
+ */
+export class ActivityTimelineView extends ItemView {
+  private logger: EventLogger;
+  private events: EventFrontmatter[] = []; // Newest first
+  private filters: TimelineFilters = { eventType: '', host: '', folder: '', range: '7' };
+  private hostSelect: HTMLSelectElement | null = null;
+  private listEl: HTMLElement | null = null;
+  private requestRender = debounce(() => this.render(), 250, true);
+
+  constructor(leaf: WorkspaceLeaf, logger: EventLogger) {
+    super(leaf);
+    this.logger = logger;
+  }
+
+  getViewType(): string {
+    return TIMELINE_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Activity Timeline';
+  }
+
+  getIcon(): string {
+    return 'activity';
+  }
+
+  async onOpen() {
+    const container = this.contentEl;
+    container.empty();
+
+    this.createControls(container.createDiv({ cls: 'nav-header' }));
+    this.listEl = container.createDiv();
+    this.listEl.style.padding = '0 var(--size-4-2)';
+
+    // Follow new events as they are logged
+    this.register(this.logger.onEvent(record => this.addEvent(record)));
+
+    await this.loadEvents();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+  }
+
+  private createControls(header: HTMLElement) {
+    const controls = header.createDiv();
+    controls.style.display = 'flex';
+    controls.style.flexWrap = 'wrap';
+    controls.style.gap = 'var(--size-4-1)';
+    controls.style.padding = 'var(--size-4-2)';
+
+    const rangeSelect = controls.createEl('select', { cls: 'dropdown' });
+    Object.entries(TIME_RANGES).forEach(([value, range]) => rangeSelect.createEl('option', { value, text: range.label }));
+    rangeSelect.value = this.filters.range;
+    rangeSelect.addEventListener('change', async () => {
+      this.filters.range = rangeSelect.value;
+      await this.loadEvents();
+    });
+
+    const typeSelect = controls.createEl('select', { cls: 'dropdown' });
+    typeSelect.createEl('option', { value: '', text: 'All types' });
+    EVENT_TYPES.forEach(type => typeSelect.createEl('option', { value: type, text: type }));
+    typeSelect.addEventListener('change', () => {
+      this.filters.eventType = typeSelect.value;
+      this.render();
+    });
+
+    this.hostSelect = controls.createEl('select', { cls: 'dropdown' });
+    this.hostSelect.addEventListener('change', () => {
+      this.filters.host = this.hostSelect?.value || '';
+      this.render();
+    });
+
+    const folderInput = controls.createEl('input', { type: 'text', placeholder: 'Folder' });
+    folderInput.addEventListener('input', () => {
+      this.filters.folder = folderInput.value.trim().replace(/^\/+|\/+$/g, '');
+      this.requestRender();
+    });
+  }
+
+  /**
+   * Reads stored and buffered events for the selected time range
+   */
+  private async loadEvents() {
+    try {
+      const days = TIME_RANGES[this.filters.range]?.days || 0;
+      const from = days > 0 ? new Date(Date.now() - days * DAY_MS) : undefined;
+
+      const events = await this.logger.readEventsWithBuffered(from ? { from } : undefined);
+      this.events = events.reverse().slice(0, MAX_LOADED_EVENTS);
+    } catch (error) {
+      console.error('[ObsidianObserver] Error loading events for the activity timeline:', error);
+      this.events = [];
+    }
+
+    this.render();
+  }
+
+  private addEvent(record: EventFrontmatter) {
+    if (this.events.some(event => event.OOEvent_GUID === record.OOEvent_GUID)) return;
+
+    this.events.unshift(record);
+    if (this.events.length > MAX_LOADED_EVENTS) {
+      this.events.length = MAX_LOADED_EVENTS;
+    }
+    this.requestRender();
+  }
+
+  private matchesFilters(record: EventFrontmatter, from?: number): boolean {
+    if (from && new Date(record.OOEvent_Timestamp).getTime() < from) return false;
+    if (this.filters.eventType && record.OOEvent_Type !== this.filters.eventType) return false;
+    if (this.filters.host && record.OOEvent_Hostname !== this.filters.host) return false;
+    if (this.filters.folder) {
+      const folder = this.filters.folder.toLowerCase();
+      const path = (record.OOEvent_FilePath || '').toLowerCase();
+      if (!path.startsWith(`${folder}/`)) return false;
+    }
+    return true;
+  }
+
+  private updateHostOptions() {
+    if (!this.hostSelect) return;
+
+    const hosts = Array.from(new Set(this.events.map(record => record.OOEvent_Hostname).filter(host => !!host))).sort();
+    if (this.filters.host && !hosts.includes(this.filters.host)) {
+      hosts.push(this.filters.host);
+    }
+
+    this.hostSelect.empty();
+    this.hostSelect.createEl('option', { value: '', text: 'All hosts' });
+    hosts.forEach(host => this.hostSelect?.createEl('option', { value: host, text: host }));
+    this.hostSelect.value = this.filters.host;
+  }
+
+  private render() {
+    if (!this.listEl) return;
+    this.updateHostOptions();
+    this.listEl.empty();
+
+    const days = TIME_RANGES[this.filters.range]?.days || 0;
+    const from = days > 0 ? Date.now() - days * DAY_MS : undefined;
+    const matching = this.events.filter(record => this.matchesFilters(record, from));
+
+    if (matching.length === 0) {
+      this.listEl.createEl('p', { text: 'No events match the current filters.', cls: 'pane-empty' });
+      return;
+    }
+
+    let currentDay = '';
+    let dayList: HTMLElement | null = null;
+    for (const record of matching.slice(0, MAX_RENDERED_EVENTS)) {
+      const timestamp = new Date(record.OOEvent_Timestamp);
+      const day = formatLocalDate(timestamp);
+      if (day !== currentDay || !dayList) {
+        currentDay = day;
+        this.listEl.createEl('h6', { text: day === formatLocalDate(new Date()) ? `Today (${day})` : day });
+        dayList = this.listEl.createDiv();
+      }
+      this.renderEvent(dayList, record, timestamp);
+    }
+
+    if (matching.length > MAX_RENDERED_EVENTS) {
+      this.listEl.createEl('p', {
+        text: `Showing the latest ${MAX_RENDERED_EVENTS} of ${matching.length} events. Narrow the filters to see more.`,
+        cls: 'pane-empty'
+      });
+    }
+  }
+
+  private renderEvent(container: HTMLElement, record: EventFrontmatter, timestamp: Date) {
+    const row = container.createDiv({ cls: 'tree-item-self' });
+    row.style.display = 'flex';
+    row.style.gap = 'var(--size-4-2)';
+
+    row.createSpan({ text: timestamp.toLocaleTimeString(), cls: 'tree-item-flair' });
+    row.createEl('strong', { text: record.OOEvent_Type });
+
+    const filePath = record.OOEvent_NewPath || record.OOEvent_FilePath;
+    if (filePath) {
+      const link = row.createEl('a', { text: record.OOEvent_FileName || filePath, cls: 'internal-link' });
+      link.setAttribute('aria-label', filePath);
+      link.addEventListener('click', async (event) => {
+        event.preventDefault();
+        await this.app.workspace.openLinkText(filePath, '', event.ctrlKey || event.metaKey);
+      });
+    }
+
+    if (record.OOEvent_Hostname) {
+      const host = row.createSpan({ text: record.OOEvent_Hostname, cls: 'tree-item-flair' });
+      host.style.marginLeft = 'auto';
+    }
+  }
+}
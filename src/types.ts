@@ -1,11 +1,65 @@
+export const EVENT_TYPES = ['open', 'close', 'save', 'edit-burst', 'create', 'quit', 'ready', 'rename', 'delete', 'PluginLoaded', 'session-end', 'folder-create', 'folder-rename', 'folder-move', 'folder-delete', 'metadata-change', 'link-added', 'link-removed'] as const;
+
+export type EventType = typeof EVENT_TYPES[number];
+
+// Version of the event record layout, stored on every event as OOEvent_SchemaVersion:
+// 0 - legacy _debug/events notes (EventType, FileName, Vault, Time)
+// 1 - OOEvent_* records written before the schema version was recorded
+// 2 - current layout
+export const EVENT_SCHEMA_VERSION = 2;
+
+export type CloseReason = 'switch' | 'leaf-closed' | 'quit' | 'unload';
+
+export type SessionStatus = 'ended' | 'abnormal'; // abnormal: the session never logged a quit
+
+export interface SessionSummary {
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+  eventCount: number;
+  status: SessionStatus;
+}
+
+export interface ContentDelta {
+  bytesAdded: number;
+  bytesRemoved: number;
+  wordsBefore: number;
+  wordsAfter: number;
+  linesChanged: number;
+}
+
+export interface EditBurstSummary {
+  startedAt: string;
+  endedAt: string;
+  modifyCount: number;
+  sizeChange: number; // Net change in bytes over the whole burst
+}
+
+export interface PropertyChange {
+  before?: unknown; // Absent when the property was added
+  after?: unknown; // Absent when the property was removed
+}
+
+export interface MetadataDiff {
+  tagsAdded: string[];
+  tagsRemoved: string[];
+  aliasesAdded: string[];
+  aliasesRemoved: string[];
+  properties: Record<string, PropertyChange>; // Changed frontmatter properties by key
+}
+
 export interface EventLog {
   guid: string; // Base32 GUID for unique identification
   timestamp: string;
-  eventType: 'open' | 'save' | 'quit' | 'ready' | 'rename' | 'delete' | 'PluginLoaded';
+  eventType: EventType;
   filePath: string;
   fileName: string;
   vaultName: string;
   hostname: string; // Hostname of the machine where the event occurred
+  sessionId?: string; // Session (one Obsidian run) the event belongs to
+  deviceId?: string; // Persistent ID of the device where the event occurred
+  fileId?: string; // Persistent ID of the file, kept across renames
+  privacy?: PrivacyLevel; // Set when the paths of the event were redacted by a privacy rule
   metadata?: {
     lastModified?: string;
     fileSize?: number;
@@ -13,19 +67,36 @@ export interface EventLog {
     newPath?: string;
     sourcePath?: string;
     targetPath?: string;
+    openGuid?: string; // GUID of the open event a close event pairs with
+    dwellSeconds?: number; // How long the note was open before it was closed
+    activeSeconds?: number; // Active editing time since the note's last close, save or edit-burst event
+    closeReason?: CloseReason;
+    folder?: string; // Parent folder of the file (for create events)
+    session?: SessionSummary; // Session record (for session-end events)
+    contentDelta?: ContentDelta; // Change against the last known version (for save and edit-burst events)
+    burst?: EditBurstSummary; // Coalesced modifies (for edit-burst events)
+    fileCount?: number; // Files inside the folder (for folder events)
+    childGuids?: string[]; // GUIDs of the per-file events a folder operation caused
+    parentGuid?: string; // GUID of the folder event that caused this file event
+    metadataChange?: MetadataDiff; // Tag, alias and property changes (for metadata-change events)
+    changeSummary?: string; // One-line description of the metadata change
   };
 }
 
 export interface EventFrontmatter {
   OOEvent_GUID: string;
+  OOEvent_SchemaVersion?: number;
   OOEvent_Timestamp: string;
   OOEvent_LocalTimestamp?: string;
   OOEvent_Timezone?: string;
-  OOEvent_Type: 'open' | 'save' | 'quit' | 'ready' | 'rename' | 'delete' | 'PluginLoaded';
+  OOEvent_Type: EventType;
   OOEvent_FilePath: string;
   OOEvent_FileName: string;
+  OOEvent_FileID?: string;
+  OOEvent_Privacy?: PrivacyLevel;
   OOEvent_VaultName: string;
   OOEvent_Hostname: string; // Hostname of the machine where the event occurred
+  OOEvent_DeviceID?: string;
   OOEvent_LastModified?: string;
   OOEvent_Created: string;
   OOEvent_OldPath?: string;
@@ -33,16 +104,116 @@ export interface EventFrontmatter {
   OOEvent_SourcePath?: string;
   OOEvent_TargetPath?: string;
   OOEvent_PluginVersion?: string;
+  OOEvent_OpenGUID?: string;
+  OOEvent_DwellSeconds?: number;
+  OOEvent_ActiveSeconds?: number;
+  OOEvent_CloseReason?: CloseReason;
+  OOEvent_FileSize?: number;
+  OOEvent_Folder?: string;
+  OOEvent_SessionID?: string;
+  OOEvent_SessionStart?: string;
+  OOEvent_SessionEnd?: string;
+  OOEvent_SessionDurationSeconds?: number;
+  OOEvent_SessionEventCount?: number;
+  OOEvent_SessionStatus?: SessionStatus;
+  OOEvent_BytesAdded?: number;
+  OOEvent_BytesRemoved?: number;
+  OOEvent_WordsBefore?: number;
+  OOEvent_WordsAfter?: number;
+  OOEvent_LinesChanged?: number;
+  OOEvent_BurstStart?: string;
+  OOEvent_BurstEnd?: string;
+  OOEvent_ModifyCount?: number;
+  OOEvent_SizeChange?: number;
+  OOEvent_FileCount?: number;
+  OOEvent_ChildGUIDs?: string[];
+  OOEvent_ParentGUID?: string;
+  OOEvent_ChangeSummary?: string;
+  OOEvent_ChangedKeys?: string[];
+  OOEvent_TagsAdded?: string[];
+  OOEvent_TagsRemoved?: string[];
+  OOEvent_AliasesAdded?: string[];
+  OOEvent_AliasesRemoved?: string[];
+  OOEvent_PropertyChanges?: Record<string, PropertyChange>;
 }
 
+export type FilterRuleAction = 'include' | 'exclude';
+
+export type FilterRuleTarget = 'path' | 'tag' | 'property';
+
+export interface FilterRule {
+  action: FilterRuleAction;
+  target: FilterRuleTarget;
+  pattern: string; // Glob for paths, tag (with or without #) for tags, "key: value" for properties
+  eventTypes: EventType[]; // Event types the rule applies to; empty applies to all
+}
+
+export type PrivacyLevel = 'full' | 'hash' | 'top-folder' | 'aggregate'; // From least to most restrictive
+
+export interface PrivacyRule {
+  target: FilterRuleTarget;
+  pattern: string; // Same syntax as filter rules
+  level: PrivacyLevel; // hash: salted hash instead of the path; top-folder: only the top-level folder; aggregate: daily counts only
+}
+
+export interface RetentionRule {
+  eventType: EventType | '*'; // '*' applies to event types without their own rule
+  maxAgeDays: number; // 0 keeps events forever
+}
+
+export interface EncryptionSettings {
+  salt: string; // Base64 PBKDF2 salt, replaced whenever the passphrase changes
+  iterations: number; // PBKDF2 iterations the passphrase key was derived with
+  wrappedKey: string; // The random key events are encrypted with, encrypted with the passphrase key
+}
+
+export interface WebhookSettings {
+  enabled: boolean;
+  url: string; // Events are POSTed here as JSON: { sentAt, events }
+  headers: Record<string, string>; // Extra request headers, e.g. for a proxy
+  authToken: string; // Sent as "Authorization: Bearer <token>" when set
+  batchSize: number; // Most events sent in one request
+}
+
+export type StorageBackend = 'markdown' | 'jsonl'; // One note per event, or one append-only JSONL file per day
+
 export interface LoggerConfig {
   eventsFolder: string; // The base folder where ObsidianObserver will create its structure
   enableConsoleLog: boolean;
+  storageBackend: StorageBackend;
+  editBurstWindowSeconds: number; // 0 logs every modify as its own save event
+  filterRules: FilterRule[];
+  maxBufferSize: number; // Flush once this many events are buffered
+  flushIntervalSeconds: number; // Flush buffered events at most this long after they are logged; 0 disables
+  idleThresholdSeconds: number; // Gaps in editor activity longer than this are idle time; 0 disables active time tracking
+  privacyRules: PrivacyRule[];
+  privacySalt: string; // Mixed into hashed paths so they cannot be looked up from known paths
+  webhook: WebhookSettings;
 }
 
 export interface PluginSettings {
   eventsFolder: string;
   enableConsoleLog: boolean;
+  storageBackend: StorageBackend;
+  editBurstWindowSeconds: number;
+  filterRules: FilterRule[];
+  maxBufferSize: number;
+  flushIntervalSeconds: number;
+  idleThresholdSeconds: number;
+  privacyRules: PrivacyRule[];
+  privacySalt: string; // Generated once per vault, synced with the settings so every device hashes alike
+  webhook: WebhookSettings; // Forwards events to an HTTP endpoint
+  deviceNames: Record<string, string>; // Friendly names by device ID
+  enableRetention: boolean; // Prune and roll up old events on a daily schedule
+  retentionRules: RetentionRule[];
+  maxLogEntries: number; // 0 keeps any number of raw events
+  lastRetentionRun?: string;
+  enableDailyDigest: boolean; // Write a digest note for each day once it has ended
+  enableWeeklyDigest: boolean; // Write a digest note for each week (Monday to Sunday) once it has ended
+  lastDigestRun?: string; // Local date of the last check for due digests
+  enableDailyNoteSummary: boolean; // Write a "What I worked on" section into each day's daily note once the day has ended
+  lastDailyNoteSummary?: string; // Local date of the last scheduled daily note update
+  encryption: EncryptionSettings | null; // Stored events are encrypted when set; the passphrase itself is never stored
 }
 
 export interface ObsidianObserverSettings {
@@ -18,6 +18,19 @@ export function generateBase32Guid(): string {
   return uuidToBase32(uuid);
 }
 
+/**
+ * Derives a GUID from a key, so the same key always gets the same GUID
+ * @param key Identifies what the GUID stands for, e.g. a note path and row
+ * @returns Base32 GUID of the same length as generateBase32Guid
+ */
+export async function deriveBase32Guid(key: string): Promise<string> {
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  const hex = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return uuidToBase32(hex.slice(0, 32));
+}
+
 /**
  * Converts a UUID string to base32 encoding
  * @param uuid The UUID string to convert
@@ -48,3 +61,26 @@ function uuidToBase32(uuid: string): string {
   // Return first 26 characters (standard base32 GUID length)
   return base32.substring(0, 26);
 }
+
+/**
+ * Formats a UTC timestamp as an ISO string shifted to the local timezone
+ * @param timestamp The UTC timestamp
+ * @returns The local time in ISO format
+ */
+export function toLocalTimestamp(timestamp: string): string {
+  const utcDate = new Date(timestamp);
+  const localDate = new Date(utcDate.getTime() - (utcDate.getTimezoneOffset() * 60000));
+  return localDate.toISOString();
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in the local timezone
+ * @param date The date to format
+ * @returns The local calendar date string
+ */
+export function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,313 @@
+import { App, requestUrl } from 'obsidian';
+import { EventLog, WebhookSettings } from './types';
+import { EventCipher, SealedLocalStorage } from './encryption';
+
+const QUEUE_STORAGE_KEY = 'obsidian-observer-webhook-queue';
+const MAX_QUEUE_SIZE = 10000; // Oldest events are dropped beyond this, so the queue cannot fill localStorage
+const INITIAL_RETRY_MS = 5000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+// Payload errors: the endpoint refuses this batch, but may accept the next one
+const REJECTED_BATCH_STATUSES = new Set([400, 413, 422]);
+
+export type WebhookState = 'disabled' | 'idle' | 'sending' | 'retrying' | 'offline' | 'paused';
+
+export interface WebhookStatus {
+  state: WebhookState;
+  queued: number; // Events waiting to be delivered
+  rejected: number; // Events dropped this session because the endpoint refused their batch
+  lastDelivery?: string; // ISO time of the last successful POST
+  lastError?: string;
+  nextRetry?: number; // Epoch milliseconds of the next attempt, while retrying
+}
+
+/**
+ * A non-2xx response from the endpoint
+ */
+class WebhookResponseError extends Error {
+  constructor(public status: number) {
+    super(`HTTP ${status}`);
+    this.name = 'WebhookResponseError';
+  }
+}
+
+type WebhookFailure = 'retry' | 'reject' | 'pause';
+
+/**
+ * Decides what a failed delivery means for the queue: payload errors reject only
+ * the batch, other client errors (a wrong token or URL) fail every batch until the
+ * settings change, and anything else, including timeouts and rate limiting, is retried
+ */
+function classifyFailure(error: unknown): WebhookFailure {
+  if (!(error instanceof WebhookResponseError)) return 'retry';
+  if (REJECTED_BATCH_STATUSES.has(error.status)) return 'reject';
+  if (error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429) return 'pause';
+  return 'retry';
+}
+
+/**
+ * Parses webhook headers written one per line as "Name: value"
+ */
+export function parseWebhookHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':');
+    if (index <= 0) continue;
+    const name = line.slice(0, index).trim();
+    if (name) {
+      headers[name] = line.slice(index + 1).trim();
+    }
+  }
+  return headers;
+}
+
+export function formatWebhookHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+}
+
+/**
+ * Short text for the status bar
+ */
+export function describeWebhookStatus(status: WebhookStatus): string {
+  switch (status.state) {
+    case 'disabled':
+      return '';
+    case 'sending':
+      return `Webhook: sending ${status.queued}`;
+    case 'offline':
+      return `Webhook: offline, ${status.queued} queued`;
+    case 'paused':
+      return `Webhook: paused (${status.lastError}), ${status.queued} queued`;
+    case 'retrying': {
+      // An absolute time stays correct between status changes, unlike a countdown
+      const retryAt = new Date(status.nextRetry || Date.now()).toLocaleTimeString();
+      return `Webhook: ${status.queued} queued, retry at ${retryAt}`;
+    }
+    case 'idle':
+    default: {
+      const text = status.queued > 0 ? `Webhook: ${status.queued} queued` : 'Webhook: delivered';
+      return status.rejected > 0 ? `${text}, ${status.rejected} rejected` : text;
+    }
+  }
+}
+
+/**
+ * Forwards logged events to an HTTP endpoint as JSON batches. Events are queued in
+ * vault-specific localStorage before any request is made, so they survive being
+ * offline and restarts; failed deliveries are retried with exponential backoff.
+ * Batches the endpoint rejects as invalid are dropped and counted in the status,
+ * since retrying them would block every later event; other client errors, such as
+ * a wrong token or URL, pause delivery with the queue kept until the settings change.
+ * While encryption is enabled the queue is stored encrypted.
+ * Delivery runs in the background and never delays or fails local logging.
+ */
+export class WebhookSink {
+  private store: SealedLocalStorage<EventLog>;
+  private config: WebhookSettings;
+  private queue: EventLog[];
+  private sending: Promise<void> | null = null;
+  private retryTimer: number | null = null;
+  private attempts = 0; // Consecutive failed deliveries
+  private paused = false; // Set when the endpoint refused the settings rather than a batch
+  private status: WebhookStatus;
+  private listeners: Set<(status: WebhookStatus) => void> = new Set();
+
+  constructor(app: App, config: WebhookSettings, cipher?: EventCipher) {
+    this.store = new SealedLocalStorage(app, QUEUE_STORAGE_KEY, cipher);
+    this.config = config;
+    this.queue = this.store.load();
+    this.status = { state: this.isEnabled() ? 'idle' : 'disabled', queued: this.queue.length, rejected: 0 };
+  }
+
+  updateConfig(config: WebhookSettings) {
+    this.config = config;
+    this.resume();
+  }
+
+  /**
+   * Clears a pause or backoff and delivers queued events now
+   */
+  resume(): Promise<void> {
+    this.clearRetry();
+    this.attempts = 0;
+    this.paused = false;
+    this.setStatus({ state: this.isEnabled() ? 'idle' : 'disabled', nextRetry: undefined, lastError: undefined });
+    return this.send();
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled && !!this.config.url.trim();
+  }
+
+  getStatus(): WebhookStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Registers a listener called whenever the delivery status changes
+   * @returns A function that removes the listener
+   */
+  onStatusChange(listener: (status: WebhookStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queues events written to local storage and starts delivering them
+   * @param events Events as stored, after the privacy rules were applied
+   */
+  enqueue(events: EventLog[]): void {
+    if (!this.isEnabled() || events.length === 0) return;
+
+    this.queue.push(...events);
+    if (this.queue.length > MAX_QUEUE_SIZE) {
+      const dropped = this.queue.length - MAX_QUEUE_SIZE;
+      this.queue.splice(0, dropped);
+      console.warn(`[ObsidianObserver] Webhook queue is full, dropped the ${dropped} oldest undelivered events`);
+    }
+    this.persist();
+    this.setStatus({});
+
+    // While backing off or paused, new events wait for the scheduled retry or new settings
+    if (this.retryTimer === null && !this.paused) {
+      this.send();
+    }
+  }
+
+  /**
+   * Delivers queued events now, e.g. when the device comes back online; a pause stays in place
+   */
+  async send(): Promise<void> {
+    this.clearRetry();
+    if (!this.sending) {
+      this.sending = this.deliver().finally(() => this.sending = null);
+    }
+    await this.sending;
+  }
+
+  /**
+   * Adds the events of an encrypted queue once the event log is unlocked, and delivers them
+   */
+  async unseal(): Promise<void> {
+    const known = new Set(this.queue.map(eventLog => eventLog.guid));
+    const sealed = (await this.store.unseal()).filter(eventLog => !known.has(eventLog.guid));
+    this.queue = sealed.concat(this.queue);
+    this.persist();
+    this.setStatus({});
+    if (this.retryTimer === null && !this.paused) {
+      this.send();
+    }
+  }
+
+  /**
+   * Stops retrying; queued events stay persisted for the next run
+   */
+  stop(): void {
+    this.clearRetry();
+  }
+
+  private async deliver(): Promise<void> {
+    while (this.isEnabled() && this.queue.length > 0) {
+      if (this.paused) {
+        this.setStatus({ state: 'paused' });
+        return;
+      }
+      if (!navigator.onLine) {
+        // Delivery resumes when the online event calls send()
+        this.setStatus({ state: 'offline' });
+        return;
+      }
+
+      const batch = this.queue.slice(0, Math.max(1, this.config.batchSize));
+      this.setStatus({ state: 'sending' });
+      try {
+        await this.post(batch);
+      } catch (error) {
+        const failure = classifyFailure(error);
+        if (failure === 'reject') {
+          console.error(`[ObsidianObserver] Webhook rejected ${batch.length} events with ${(error as Error).message}, dropping them`);
+          this.removeFromQueue(batch);
+          this.setStatus({ rejected: this.status.rejected + batch.length, lastError: `${(error as Error).message}, ${batch.length} events dropped` });
+          continue;
+        }
+        if (failure === 'pause') {
+          // Every batch would fail the same way, so nothing is dropped until the settings are fixed
+          console.error(`[ObsidianObserver] Webhook refused delivery with ${(error as Error).message}, pausing until its settings change`);
+          this.paused = true;
+          this.setStatus({ state: 'paused', lastError: (error as Error).message, nextRetry: undefined });
+          return;
+        }
+
+        this.attempts++;
+        const delay = Math.min(INITIAL_RETRY_MS * Math.pow(2, this.attempts - 1), MAX_RETRY_MS);
+        console.warn(`[ObsidianObserver] Webhook delivery failed, retrying in ${Math.round(delay / 1000)}s:`, error);
+        this.retryTimer = window.setTimeout(() => {
+          this.retryTimer = null;
+          this.send();
+        }, delay);
+        this.setStatus({ state: 'retrying', lastError: error instanceof Error ? error.message : String(error), nextRetry: Date.now() + delay });
+        return;
+      }
+
+      this.removeFromQueue(batch);
+      this.attempts = 0;
+      this.setStatus({ lastDelivery: new Date().toISOString(), lastError: undefined, nextRetry: undefined });
+    }
+
+    this.setStatus({ state: this.isEnabled() ? 'idle' : 'disabled' });
+  }
+
+  private async post(batch: EventLog[]): Promise<void> {
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (this.config.authToken) {
+      headers['Authorization'] = `Bearer ${this.config.authToken}`;
+    }
+
+    const response = await requestUrl({
+      url: this.config.url.trim(),
+      method: 'POST',
+      contentType: 'application/json',
+      headers,
+      body: JSON.stringify({ sentAt: new Date().toISOString(), events: batch }),
+      throw: false
+    });
+    if (response.status >= 200 && response.status < 300) {
+      return;
+    }
+    throw new WebhookResponseError(response.status);
+  }
+
+  private removeFromQueue(batch: EventLog[]): void {
+    // Events queued during the request stay behind the batch
+    const sent = new Set(batch.map(eventLog => eventLog.guid));
+    this.queue = this.queue.filter(eventLog => !sent.has(eventLog.guid));
+    this.persist();
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Stores the queue again, e.g. encrypted once encryption is turned on
+   */
+  persist(): void {
+    this.store.save(this.queue);
+  }
+
+  private setStatus(changes: Partial<WebhookStatus>): void {
+    this.status = { ...this.status, ...changes, queued: this.queue.length };
+    for (const listener of this.listeners) {
+      try {
+        listener(this.getStatus());
+      } catch (error) {
+        console.error('[ObsidianObserver] Error in webhook status listener:', error);
+      }
+    }
+  }
+}